@@ -0,0 +1,39 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { GuideCache } from '../guide-cache';
+
+describe('GuideCache', () => {
+  let dir: string;
+  let cache: GuideCache;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'guide-cache-'));
+    cache = new GuideCache(path.join(dir, 'cache'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('finds cached guides again through the saved host list', async () => {
+    const lineup = [{ GuideNumber: '5.1', GuideName: 'KSTP' }];
+    const guide = [
+      { GuideNumber: '5.1', GuideName: 'KSTP', Guide: [{ StartTime: 0, EndTime: 1, Title: 'A' }] },
+    ];
+    await cache.saveHosts(['192.168.1.50']);
+    await cache.save('192.168.1.50', { guide, fetchedUntil: 0 }, '1040ABCD', lineup);
+
+    // A fresh instance, as after a restart
+    const restarted = new GuideCache(path.join(dir, 'cache'));
+    const hosts = await restarted.loadHosts();
+    const cached = await restarted.load(hosts[0]);
+
+    expect(hosts).toEqual(['192.168.1.50']);
+    expect(cached).toMatchObject({ deviceId: '1040ABCD', lineup, guide });
+  });
+
+  it('knows no hosts before anything was saved', async () => {
+    expect(await cache.loadHosts()).toEqual([]);
+  });
+});
@@ -0,0 +1,92 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { HDHomeRunClient } from '../hdhomerun-client';
+import type { ChannelGuide, ProgrammeGuide } from '../../types/hdhomerun';
+
+const HOST = '192.168.1.50';
+const NOW = 1757970000;
+const HOUR = 3600;
+
+function programme(startHours: number, title: string): ProgrammeGuide {
+  return {
+    StartTime: NOW + startHours * HOUR,
+    EndTime: NOW + (startHours + 1) * HOUR,
+    Title: title,
+  };
+}
+
+function channel(programmes: ProgrammeGuide[]): ChannelGuide {
+  return { GuideNumber: '5.1', GuideName: 'KSTP', Guide: programmes };
+}
+
+describe('HDHomeRunClient.refreshEPGData', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'hdhomerun-client-'));
+    const fixtures = path.join(dir, HOST);
+    await fs.mkdir(fixtures);
+
+    const write = (name: string, data: unknown) =>
+      fs.writeFile(path.join(fixtures, name), JSON.stringify(data));
+    await write('manifest.json', {
+      host: HOST,
+      now: NOW,
+      recordedAt: '',
+      days: 2,
+      hoursIncrement: 12,
+    });
+    await write('discover.json', { DeviceAuth: 'token', DeviceID: '1040ABCD' });
+    // Re-fetched windows: the near term and everything from the cached end on
+    await write('guide-initial.json', [channel([programme(2, 'Fresh')])]);
+    await write(`guide-${NOW + 24 * HOUR}.json`, [
+      channel([programme(26, 'Revised'), programme(32, 'Late')]),
+    ]);
+    await write(`guide-${NOW + 36 * HOUR}.json`, [channel([programme(41, 'Replacement')])]);
+    await write(`guide-${NOW + 48 * HOUR}.json`, []);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('evicts cached programmes in re-fetched windows before merging', async () => {
+    const client = new HDHomeRunClient(HOST, { fixtureMode: 'replay', fixturesDirectory: dir });
+    const cached = {
+      guide: [
+        channel([
+          programme(-2, 'Ended'),
+          programme(1, 'Cancelled'),
+          programme(20, 'Kept'),
+          programme(40, 'Moved'),
+        ]),
+      ],
+      fetchedUntil: NOW + 36 * HOUR,
+    };
+
+    const snapshot = await client.refreshEPGData(cached, 2, 12, 12);
+
+    expect(snapshot.guide[0].Guide.map((p) => p.Title)).toEqual(['Fresh', 'Kept', 'Replacement']);
+    expect(snapshot.fetchedUntil).toBe(NOW + 48 * HOUR);
+  });
+
+  it('re-fetches the window holding the cached end when windows do not line up', async () => {
+    const client = new HDHomeRunClient(HOST, { fixtureMode: 'replay', fixturesDirectory: dir });
+    const cached = {
+      guide: [channel([programme(20, 'Kept'), programme(26, 'Outdated'), programme(31, 'Moved')])],
+      // Between this run's +24h and +36h window starts
+      fetchedUntil: NOW + 30 * HOUR,
+    };
+
+    const snapshot = await client.refreshEPGData(cached, 2, 12, 12);
+
+    expect(snapshot.guide[0].Guide.map((p) => p.Title)).toEqual([
+      'Fresh',
+      'Kept',
+      'Revised',
+      'Late',
+      'Replacement',
+    ]);
+  });
+});
@@ -0,0 +1,69 @@
+import { mergeDeviceResults } from '../multi-device';
+import type { DeviceGuideResult } from '../multi-device';
+
+function device(host: string, deviceId: string, guideNumbers: string[]): DeviceGuideResult {
+  return {
+    host,
+    deviceId,
+    lineup: guideNumbers.map((GuideNumber) => ({
+      GuideNumber,
+      GuideName: `${deviceId} ${GuideNumber}`,
+    })),
+    guide: guideNumbers.map((GuideNumber) => ({
+      GuideNumber,
+      GuideName: `${deviceId} ${GuideNumber}`,
+      Guide: [{ StartTime: 0, EndTime: 3600, Title: `${deviceId} show` }],
+    })),
+  };
+}
+
+describe('mergeDeviceResults', () => {
+  const first = device('192.168.1.50', '1040ABCD', ['5.1', '7.1']);
+  const second = device('192.168.1.51', '1050BEEF', ['7.1', '9.1']);
+
+  it('keeps the first device for duplicate channels with prefer-first', () => {
+    const { lineup, guide } = mergeDeviceResults([first, second], 'prefer-first');
+
+    expect(lineup.map((item) => [item.GuideNumber, item.DeviceID])).toEqual([
+      ['5.1', '1040ABCD'],
+      ['7.1', '1040ABCD'],
+      ['9.1', '1050BEEF'],
+    ]);
+    expect(guide.find((channel) => channel.GuideNumber === '7.1')?.Guide[0].Title).toBe(
+      '1040ABCD show'
+    );
+  });
+
+  it('suffixes every channel with its device id with namespace', () => {
+    const { lineup, guide } = mergeDeviceResults([first, second], 'namespace');
+
+    expect(lineup.map((item) => item.GuideNumber)).toEqual([
+      '5.1@1040ABCD',
+      '7.1@1040ABCD',
+      '7.1@1050BEEF',
+      '9.1@1050BEEF',
+    ]);
+    expect(guide.map((channel) => channel.GuideNumber)).toEqual(
+      lineup.map((item) => item.GuideNumber)
+    );
+  });
+
+  it('namespaces the only responding device the same way', () => {
+    const { lineup, guide } = mergeDeviceResults([second], 'namespace');
+
+    expect(lineup.map((item) => item.GuideNumber)).toEqual(['7.1@1050BEEF', '9.1@1050BEEF']);
+    expect(guide.map((channel) => channel.GuideNumber)).toEqual(['7.1@1050BEEF', '9.1@1050BEEF']);
+  });
+
+  it("takes a duplicate channel's listings from the device that owns its lineup entry", () => {
+    const withoutGuide = { ...first, guide: first.guide.filter((c) => c.GuideNumber !== '7.1') };
+
+    const { lineup, guide } = mergeDeviceResults([withoutGuide, second], 'prefer-first');
+
+    expect(lineup.find((item) => item.GuideNumber === '7.1')?.DeviceID).toBe('1040ABCD');
+    expect(guide.map((channel) => [channel.GuideNumber, channel.DeviceID])).toEqual([
+      ['5.1', '1040ABCD'],
+      ['9.1', '1050BEEF'],
+    ]);
+  });
+});
@@ -0,0 +1,120 @@
+import dgram from 'dgram';
+import { crc32 } from 'zlib';
+import { HDHomeRunDiscovery, decodeDiscoverReply, encodeDiscoverReply } from '../udp-discovery';
+
+/**
+ * Wrap a raw TLV payload in a reply header and valid CRC
+ */
+function replyPacket(payload: Buffer): Buffer {
+  const header = Buffer.alloc(4);
+  header.writeUInt16BE(0x0003, 0);
+  header.writeUInt16BE(payload.length, 2);
+  const body = Buffer.concat([header, payload]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32LE(crc32(body), 0);
+  return Buffer.concat([body, crc]);
+}
+
+describe('decodeDiscoverReply', () => {
+  const reply = encodeDiscoverReply({
+    deviceId: '1040ABCD',
+    baseUrl: 'http://192.168.1.50:80',
+    lineupUrl: 'http://192.168.1.50:80/lineup.json',
+    tunerCount: 4,
+  });
+
+  it('decodes a well-formed reply', () => {
+    const device = decodeDiscoverReply(reply, '192.168.1.50');
+
+    expect(device).toMatchObject({
+      deviceId: '1040ABCD',
+      deviceType: 1,
+      host: '192.168.1.50',
+      address: '192.168.1.50',
+      lineupUrl: 'http://192.168.1.50:80/lineup.json',
+      tunerCount: 4,
+    });
+  });
+
+  it('rejects every truncation of a reply without throwing', () => {
+    for (let length = 0; length < reply.length; length++) {
+      expect(decodeDiscoverReply(reply.subarray(0, length), '10.0.0.1')).toBeNull();
+    }
+  });
+
+  it('rejects a reply with a bad CRC', () => {
+    const corrupted = Buffer.from(reply);
+    corrupted[corrupted.length - 1] ^= 0xff;
+
+    expect(decodeDiscoverReply(corrupted, '10.0.0.1')).toBeNull();
+  });
+
+  it('rejects a device id TLV shorter than four bytes', () => {
+    const packet = replyPacket(Buffer.from([0x02, 0x02, 0x10, 0x40]));
+
+    expect(decodeDiscoverReply(packet, '10.0.0.1')).toBeNull();
+  });
+
+  it('rejects a TLV whose length runs past the payload', () => {
+    const packet = replyPacket(Buffer.from([0x02, 0x04, 0x10, 0x40]));
+
+    expect(decodeDiscoverReply(packet, '10.0.0.1')).toBeNull();
+  });
+
+  it('rejects a TLV cut off inside its length field', () => {
+    const packet = replyPacket(Buffer.from([0x2a, 0x81]));
+
+    expect(decodeDiscoverReply(packet, '10.0.0.1')).toBeNull();
+  });
+});
+
+describe('HDHomeRunDiscovery', () => {
+  let responder: dgram.Socket;
+  let port: number;
+
+  beforeEach(async () => {
+    responder = dgram.createSocket('udp4');
+    responder.on('message', (_message, remote) => {
+      // A malformed packet first, then a valid reply
+      responder.send(Buffer.from([0x00, 0x03, 0x00, 0x02, 0x02]), remote.port, remote.address);
+      responder.send(
+        encodeDiscoverReply({ deviceId: '1040ABCD', baseUrl: 'http://127.0.0.1:5004' }),
+        remote.port,
+        remote.address
+      );
+    });
+    await new Promise<void>((resolve) => responder.bind(0, '127.0.0.1', resolve));
+    port = responder.address().port;
+  });
+
+  afterEach(() => {
+    responder.close();
+  });
+
+  it('finds a local responder and skips malformed packets', async () => {
+    const discovery = new HDHomeRunDiscovery({
+      timeoutMs: 300,
+      broadcastAddress: '127.0.0.1',
+      port,
+    });
+
+    const devices = await discovery.discover();
+
+    expect(devices).toHaveLength(1);
+    expect(devices[0]).toMatchObject({ deviceId: '1040ABCD', host: '127.0.0.1:5004' });
+    expect(await discovery.resolveHosts([])).toEqual(['127.0.0.1:5004']);
+  });
+
+  it('falls back to the fallback host when nothing answers', async () => {
+    responder.removeAllListeners('message');
+    const discovery = new HDHomeRunDiscovery({
+      timeoutMs: 100,
+      broadcastAddress: '127.0.0.1',
+      port,
+      fallbackHost: 'localhost',
+    });
+
+    expect(await discovery.resolveHosts([])).toEqual(['localhost']);
+    expect(discovery.getDevices()).toEqual([]);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Fixture Store
+ * Saves raw HDHomeRun device and guide API responses to disk (record mode)
+ * and serves them back (replay mode) so a run can be reproduced offline
+ *
+ * Layout: <directory>/<host>/{manifest,discover,lineup,guide-*}.json
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface FixtureManifest {
+  host: string;
+  recordedAt: string;
+  // Clock used to compute guide windows, replayed so chunk timestamps match
+  now: number;
+  guideApiUrl: string;
+  days: number;
+  hoursIncrement: number;
+}
+
+export class FixtureStore {
+  private readonly hostDirectory: string;
+
+  constructor(directory: string, host: string) {
+    this.hostDirectory = path.join(directory, host.replace(/[^A-Za-z0-9._-]/g, '_'));
+  }
+
+  async save(name: string, data: unknown): Promise<void> {
+    await fs.mkdir(this.hostDirectory, { recursive: true });
+    const filePath = path.join(this.hostDirectory, name);
+    await fs.writeFile(filePath, JSON.stringify(data, null, 2), 'utf-8');
+    console.log(`Recorded fixture ${filePath}`);
+  }
+
+  async load<T>(name: string): Promise<T> {
+    const filePath = path.join(this.hostDirectory, name);
+
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      return JSON.parse(content) as T;
+    } catch (error) {
+      throw new Error(`Failed to load fixture ${filePath}: ${error}`);
+    }
+  }
+
+  /**
+   * Hosts that have a recorded manifest in the fixtures directory
+   */
+  static async listHosts(directory: string): Promise<string[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(directory);
+    } catch {
+      return [];
+    }
+
+    const hosts: string[] = [];
+    for (const entry of entries.sort()) {
+      try {
+        const content = await fs.readFile(path.join(directory, entry, 'manifest.json'), 'utf-8');
+        hosts.push((JSON.parse(content) as FixtureManifest).host);
+      } catch {
+        // Not a recorded device directory
+      }
+    }
+
+    return hosts;
+  }
+}
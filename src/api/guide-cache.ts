@@ -0,0 +1,191 @@
+/**
+ * Guide Cache
+ * Persists each device's merged raw guide between runs so later updates only
+ * need to re-fetch the near-term windows and the newly added days
+ *
+ * Layout: <directory>/guide-<host>.json, plus <directory>/hosts.json listing
+ * the hosts of the last fetch so the cache can be found again after a restart
+ * in discovery mode
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ChannelLineupItem, EPGResponse } from '../types/hdhomerun';
+
+export interface GuideSnapshot {
+  guide: EPGResponse;
+  // Start timestamp of the last guide window fetched into this snapshot
+  fetchedUntil: number;
+}
+
+export interface CachedGuide extends GuideSnapshot {
+  host: string;
+  deviceId: string | null;
+  savedAt: string;
+  lineup?: ChannelLineupItem[]; // Missing in caches written before lineups were kept
+}
+
+export class GuideCache {
+  private readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  /**
+   * Load the cached guide for a device, or null when missing or unreadable
+   */
+  async load(host: string): Promise<CachedGuide | null> {
+    const filePath = this.getPath(host);
+
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      const cached = JSON.parse(content) as CachedGuide;
+      console.log(`Loaded guide cache for ${host} (saved ${cached.savedAt})`);
+      return cached;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`Ignoring unreadable guide cache ${filePath}: ${error}`);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Save a device's guide and lineup atomically
+   */
+  async save(
+    host: string,
+    snapshot: GuideSnapshot,
+    deviceId: string | null,
+    lineup: ChannelLineupItem[]
+  ): Promise<void> {
+    const cached: CachedGuide = {
+      host,
+      deviceId,
+      savedAt: new Date().toISOString(),
+      lineup,
+      ...snapshot,
+    };
+
+    try {
+      await this.writeAtomic(this.getPath(host), JSON.stringify(cached));
+    } catch (error) {
+      console.warn(`Failed to save guide cache for ${host}: ${error}`);
+    }
+  }
+
+  /**
+   * Hosts of the last fetch, or an empty list when none were saved
+   */
+  async loadHosts(): Promise<string[]> {
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.getHostsPath(), 'utf-8')) as unknown;
+      return Array.isArray(parsed)
+        ? parsed.filter((host): host is string => typeof host === 'string')
+        : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`Ignoring unreadable guide cache host list: ${error}`);
+      }
+      return [];
+    }
+  }
+
+  /**
+   * Remember which hosts the cached guides belong to
+   */
+  async saveHosts(hosts: string[]): Promise<void> {
+    try {
+      await this.writeAtomic(this.getHostsPath(), JSON.stringify(hosts));
+    } catch (error) {
+      console.warn(`Failed to save guide cache host list: ${error}`);
+    }
+  }
+
+  /**
+   * Write a file atomically (temp file + rename)
+   */
+  private async writeAtomic(filePath: string, content: string): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, content, 'utf-8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  private getHostsPath(): string {
+    return path.join(this.directory, 'hosts.json');
+  }
+
+  private getPath(host: string): string {
+    return path.join(this.directory, `guide-${host.replace(/[^A-Za-z0-9._-]/g, '_')}.json`);
+  }
+}
+
+/**
+ * Drop programmes that have already ended and channels left with no programmes
+ */
+export function pruneEndedProgrammes(
+  guide: EPGResponse,
+  now: number
+): { guide: EPGResponse; pruned: number } {
+  let pruned = 0;
+  const result: EPGResponse = [];
+
+  for (const channel of guide) {
+    const remaining = channel.Guide.filter((programme) => programme.EndTime > now);
+    pruned += channel.Guide.length - remaining.length;
+
+    if (remaining.length > 0) {
+      result.push({ ...channel, Guide: remaining });
+    }
+  }
+
+  return { guide: result, pruned };
+}
+
+/**
+ * Drop programmes starting inside any [start, end) range, and channels left
+ * with no programmes
+ * Used before re-fetching those ranges, so cancelled or moved listings in the
+ * cache do not survive next to their replacements
+ */
+export function evictProgrammes(
+  guide: EPGResponse,
+  ranges: Array<[number, number]>
+): { guide: EPGResponse; evicted: number } {
+  let evicted = 0;
+  const result: EPGResponse = [];
+
+  for (const channel of guide) {
+    const remaining = channel.Guide.filter(
+      (programme) =>
+        !ranges.some(([start, end]) => programme.StartTime >= start && programme.StartTime < end)
+    );
+    evicted += channel.Guide.length - remaining.length;
+
+    if (remaining.length > 0) {
+      result.push({ ...channel, Guide: remaining });
+    }
+  }
+
+  return { guide: result, evicted };
+}
+
+/**
+ * Unix time until which the guide has listings for a typical channel
+ * Uses the median of each channel's last EndTime so a few channels with
+ * unusually long or short listings do not skew the result
+ */
+export function computeCoverageEnd(guide: EPGResponse): number | null {
+  const channelEnds = guide
+    .filter((channel) => channel.Guide.length > 0)
+    .map((channel) => Math.max(...channel.Guide.map((programme) => programme.EndTime)))
+    .sort((a, b) => a - b);
+
+  if (channelEnds.length === 0) {
+    return null;
+  }
+
+  return channelEnds[Math.floor(channelEnds.length / 2)];
+}
@@ -0,0 +1,75 @@
+/**
+ * Guide Merger
+ * Combines overlapping guide chunks into one EPGResponse
+ *
+ * Each channel keeps a programme index keyed by StartTime, so merging is
+ * linear in the number of programmes. Channels that first appear in a later
+ * chunk are added, and a later programme at the same StartTime replaces the
+ * earlier one when its EndTime is the same or later (revised listing).
+ */
+
+import type { ChannelGuide, EPGResponse, ProgrammeGuide } from '../types/hdhomerun';
+
+interface ChannelIndex {
+  channel: ChannelGuide;
+  programmes: Map<number, ProgrammeGuide>;
+}
+
+export class GuideMerger {
+  private readonly channels = new Map<string, ChannelIndex>();
+  private replaced = 0;
+
+  /**
+   * Merge a chunk into the index; later chunks take precedence
+   */
+  add(data: EPGResponse): void {
+    for (const incoming of data) {
+      let index = this.channels.get(incoming.GuideNumber);
+
+      if (!index) {
+        index = { channel: { ...incoming, Guide: [] }, programmes: new Map() };
+        this.channels.set(incoming.GuideNumber, index);
+      } else {
+        // Refresh channel metadata (name, affiliate, logo) from the newer chunk
+        index.channel = { ...index.channel, ...incoming, Guide: [] };
+      }
+
+      for (const programme of incoming.Guide || []) {
+        const existing = index.programmes.get(programme.StartTime);
+
+        if (!existing) {
+          index.programmes.set(programme.StartTime, programme);
+        } else if (programme.EndTime >= existing.EndTime) {
+          if (programme.EndTime !== existing.EndTime || programme.Title !== existing.Title) {
+            this.replaced++;
+          }
+          index.programmes.set(programme.StartTime, programme);
+        }
+      }
+    }
+  }
+
+  /**
+   * Build the merged guide with each channel's programmes sorted by StartTime
+   * Channels keep the order in which they were first seen
+   */
+  toGuide(): EPGResponse {
+    const guide: EPGResponse = [];
+
+    for (const { channel, programmes } of this.channels.values()) {
+      guide.push({
+        ...channel,
+        Guide: [...programmes.values()].sort((a, b) => a.StartTime - b.StartTime),
+      });
+    }
+
+    return guide;
+  }
+
+  /**
+   * Number of programmes replaced by a revised listing (new EndTime or title)
+   */
+  getReplacedCount(): number {
+    return this.replaced;
+  }
+}
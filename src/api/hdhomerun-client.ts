@@ -5,19 +5,85 @@
 
 import axios, { AxiosInstance } from 'axios';
 import axiosRetry from 'axios-retry';
+import { FixtureStore } from './fixture-store';
+import { GuideMerger } from './guide-merger';
+import { evictProgrammes, pruneEndedProgrammes } from './guide-cache';
+import type { GuideSnapshot } from './guide-cache';
+import { RateLimiter, mapWithConcurrency, sleep } from '../utils/concurrency';
+import type { FixtureManifest } from './fixture-store';
 import type {
   DeviceDiscovery,
   ChannelLineupItem,
   EPGResponse,
 } from '../types/hdhomerun';
+import type { FixtureMode } from '../types/config';
+
+export const DEFAULT_GUIDE_API_URL = 'https://api.hdhomerun.com/api/guide';
+
+export interface HDHomeRunClientOptions {
+  guideApiUrl?: string;
+  fixtureMode?: FixtureMode;
+  fixturesDirectory?: string;
+  guideConcurrency?: number;
+  guideRequestsPerSecond?: number;
+  guideChunkRetries?: number;
+  deviceAuthMaxAgeMinutes?: number;
+  maxReauthAttempts?: number;
+}
+
+/**
+ * Raised by fetchEPGChunk on a 403 so the chunk can be re-issued with a fresh token
+ */
+class DeviceAuthExpiredError extends Error {
+  readonly staleToken: string;
+
+  constructor(staleToken: string) {
+    super('DeviceAuth rejected by guide API (403)');
+    this.name = 'DeviceAuthExpiredError';
+    this.staleToken = staleToken;
+  }
+}
 
 export class HDHomeRunClient {
   private readonly host: string;
+  private readonly guideApiUrl: string;
+  private readonly fixtureMode: FixtureMode;
+  private readonly fixtures: FixtureStore | null;
   private readonly axiosInstance: AxiosInstance;
+  private readonly concurrency: number;
+  private readonly requestsPerSecond: number;
+  private readonly chunkRetries: number;
+  private readonly rateLimiter: RateLimiter;
+  private readonly deviceAuthMaxAgeMs: number;
+  private readonly maxReauthAttempts: number;
   private deviceAuth: string | null = null;
+  private deviceAuthFetchedAt = 0;
+  private deviceAuthRefresh: Promise<string> | null = null;
+  private deviceId: string | null = null;
 
-  constructor(host: string) {
+  constructor(host: string, options: HDHomeRunClientOptions = {}) {
     this.host = host;
+    this.guideApiUrl = options.guideApiUrl || DEFAULT_GUIDE_API_URL;
+    this.fixtureMode = options.fixtureMode || 'live';
+    this.fixtures =
+      this.fixtureMode !== 'live' && options.fixturesDirectory
+        ? new FixtureStore(options.fixturesDirectory, host)
+        : null;
+
+    if (this.fixtureMode !== 'live' && !this.fixtures) {
+      throw new Error(`Fixture mode "${this.fixtureMode}" requires a fixtures directory`);
+    }
+
+    this.concurrency = Math.max(1, options.guideConcurrency ?? 4);
+    this.chunkRetries = Math.max(0, options.guideChunkRetries ?? 2);
+    // Replay never touches the network, so there is nothing to be polite to
+    this.requestsPerSecond =
+      this.fixtureMode === 'replay' ? 0 : (options.guideRequestsPerSecond ?? 2);
+    this.rateLimiter = new RateLimiter(this.requestsPerSecond);
+
+    // Tokens last 8 hours; refresh early so long fetches never run on an expiring token
+    this.deviceAuthMaxAgeMs = (options.deviceAuthMaxAgeMinutes ?? 360) * 60000;
+    this.maxReauthAttempts = Math.max(0, options.maxReauthAttempts ?? 3);
 
     // Create axios instance with aggressive timeout for fast failure
     this.axiosInstance = axios.create({
@@ -55,13 +121,15 @@ export class HDHomeRunClient {
     console.log(`Fetching DeviceAuth from ${url}`);
 
     try {
-      const response = await this.axiosInstance.get<DeviceDiscovery>(url);
+      const discovery = await this.getJSON<DeviceDiscovery>(url, 'discover.json');
 
-      if (!response.data.DeviceAuth) {
+      if (!discovery.DeviceAuth) {
         throw new Error('DeviceAuth not found in response');
       }
 
-      this.deviceAuth = response.data.DeviceAuth;
+      this.deviceAuth = discovery.DeviceAuth;
+      this.deviceAuthFetchedAt = Date.now();
+      this.deviceId = discovery.DeviceID || null;
       console.log('DeviceAuth obtained successfully');
       return this.deviceAuth;
     } catch (error) {
@@ -70,6 +138,20 @@ export class HDHomeRunClient {
     }
   }
 
+  /**
+   * Device host this client talks to
+   */
+  getHost(): string {
+    return this.host;
+  }
+
+  /**
+   * DeviceID reported by discover.json (null until fetchDeviceAuth has run)
+   */
+  getDeviceId(): string | null {
+    return this.deviceId;
+  }
+
   /**
    * Fetch channel lineup from HDHomeRun device
    */
@@ -78,9 +160,9 @@ export class HDHomeRunClient {
     console.log(`Fetching lineup from ${url}`);
 
     try {
-      const response = await this.axiosInstance.get<ChannelLineupItem[]>(url);
-      console.log(`Fetched ${response.data.length} channels from lineup`);
-      return response.data;
+      const lineup = await this.getJSON<ChannelLineupItem[]>(url, 'lineup.json');
+      console.log(`Fetched ${lineup.length} channels from lineup`);
+      return lineup;
     } catch (error) {
       console.error('Failed to fetch lineup:', error);
       throw new Error(`Failed to fetch lineup from ${url}: ${error}`);
@@ -89,45 +171,190 @@ export class HDHomeRunClient {
 
   /**
    * Fetch EPG data from HDHomeRun cloud API
-   * Fetches data in time-windowed chunks to get complete 7-day guide
+   * Fetches data in time-windowed chunks to get complete 7-day guide.
    */
   async fetchEPGData(days: number, hoursIncrement: number): Promise<EPGResponse> {
-    if (!this.deviceAuth) {
-      await this.fetchDeviceAuth();
-    }
+    return (await this.refreshEPGData(null, days, hoursIncrement)).guide;
+  }
+
+  /**
+   * Fetch EPG data on top of a cached snapshot
+   * With a cache, only the near-term windows (where listings change most) and
+   * the windows past the cached range are fetched, and programmes that have
+   * already ended are pruned. Without a cache every window is fetched.
+   * Windows are fetched concurrently (bounded by guideConcurrency, paced by
+   * guideRequestsPerSecond) and merged in window order.
+   */
+  async refreshEPGData(
+    cached: GuideSnapshot | null,
+    days: number,
+    hoursIncrement: number,
+    nearTermHours: number = 24
+  ): Promise<GuideSnapshot> {
+    await this.ensureDeviceAuth();
 
-    const now = Math.floor(Date.now() / 1000); // Current time in Unix timestamp
+    const now = await this.resolveClock(days, hoursIncrement);
     const maxTimestamp = now + days * 86400; // 86400 seconds = 1 day
     const timestampIncrementHrs = (86400 / 24) * hoursIncrement;
 
-    // Fetch initial EPG data (from now)
-    console.log('Fetching initial EPG data...');
-    const baseGuide = await this.fetchEPGChunk(this.deviceAuth!);
+    // First window has no Start parameter (guide from now)
+    const allWindows: Array<number | undefined> = [undefined];
+    for (let ts = now + timestampIncrementHrs; ts <= maxTimestamp; ts += timestampIncrementHrs) {
+      allWindows.push(ts);
+    }
+
+    const merger = new GuideMerger();
+    let windows = allWindows;
 
-    let nextTimestamp = now + timestampIncrementHrs;
-    let chunkCount = 1;
+    if (cached) {
+      const { guide, pruned } = pruneEndedProgrammes(cached.guide, now);
 
-    // Loop to fetch subsequent time windows
-    while (nextTimestamp <= maxTimestamp) {
+      // This run's windows rarely line up with the last run's, so the tail is
+      // re-fetched from the start of the window holding cached.fetchedUntil
+      const tailStart = allWindows.reduce<number>(
+        (start, ts) => (ts !== undefined && ts <= cached.fetchedUntil ? ts : start),
+        now
+      );
+
+      // Cached listings in the re-fetched ranges are replaced wholesale
+      const nearTermEnd = now + nearTermHours * 3600;
+      const { guide: kept, evicted } = evictProgrammes(guide, [
+        [now, nearTermEnd],
+        [tailStart, Infinity],
+      ]);
+      merger.add(kept);
+
+      windows = allWindows.filter(
+        (ts) => ts === undefined || ts < nearTermEnd || ts >= tailStart
+      );
       console.log(
-        `Fetching EPG chunk ${++chunkCount} (timestamp: ${new Date(nextTimestamp * 1000).toISOString()})`
+        `Incremental refresh: fetching ${windows.length} of ${allWindows.length} windows on top of cache (pruned ${pruned} ended, evicted ${evicted} re-fetched programmes)`
       );
+    }
 
-      const chunkData = await this.fetchEPGChunk(this.deviceAuth!, nextTimestamp);
+    console.log(
+      `Fetching ${windows.length} EPG chunks (concurrency ${this.concurrency}, ${this.requestsPerSecond} req/s)...`
+    );
+    const fetchStart = Date.now();
 
-      if (!chunkData || chunkData.length === 0) {
-        console.log('No more EPG data available, stopping fetch');
-        break;
+    const chunks = await mapWithConcurrency(windows, this.concurrency, (start, index) =>
+      this.fetchEPGChunkWithRetry(start, index, windows.length)
+    );
+
+    // Merge chunks in window order so later windows win revised listings
+    let emptyChunks = 0;
+    for (const chunkData of chunks) {
+      if (chunkData.length === 0) {
+        emptyChunks++;
+        continue;
       }
+      merger.add(chunkData);
+    }
+
+    const duration = ((Date.now() - fetchStart) / 1000).toFixed(2);
+    console.log(
+      `EPG fetch complete. Retrieved ${chunks.length} chunks (${emptyChunks} empty) in ${duration}s.`
+    );
+    if (merger.getReplacedCount() > 0) {
+      console.log(`Replaced ${merger.getReplacedCount()} programmes with revised listings`);
+    }
 
-      // Merge chunk data into base guide (deduplicate by StartTime)
-      this.mergeEPGData(baseGuide, chunkData);
+    return {
+      guide: merger.toGuide(),
+      fetchedUntil: allWindows[allWindows.length - 1] ?? now,
+    };
+  }
+
+  /**
+   * Current DeviceAuth, refreshed first when missing or older than the max age
+   */
+  private async ensureDeviceAuth(): Promise<string> {
+    if (!this.deviceAuth) {
+      return this.refreshDeviceAuth(null);
+    }
 
-      nextTimestamp += timestampIncrementHrs;
+    const age = Date.now() - this.deviceAuthFetchedAt;
+    if (age >= this.deviceAuthMaxAgeMs) {
+      console.log(`DeviceAuth is ${Math.round(age / 60000)} minutes old, refreshing ahead of expiry`);
+      return this.refreshDeviceAuth(this.deviceAuth);
     }
 
-    console.log(`EPG fetch complete. Retrieved ${chunkCount} chunks.`);
-    return baseGuide;
+    return this.deviceAuth;
+  }
+
+  /**
+   * Refresh DeviceAuth once for all concurrent callers holding the same stale token
+   * Callers whose token was already replaced get the current one without a new request
+   */
+  private async refreshDeviceAuth(staleToken: string | null): Promise<string> {
+    if (this.deviceAuth && this.deviceAuth !== staleToken) {
+      return this.deviceAuth;
+    }
+
+    if (!this.deviceAuthRefresh) {
+      this.deviceAuthRefresh = this.fetchDeviceAuth().finally(() => {
+        this.deviceAuthRefresh = null;
+      });
+    }
+
+    return this.deviceAuthRefresh;
+  }
+
+  /**
+   * Fetch one guide window, retrying only this chunk on failure
+   * Each attempt waits for a rate limiter slot and logs its timing.
+   * A 403 refreshes DeviceAuth and re-issues the chunk without using up a
+   * retry, up to maxReauthAttempts times.
+   */
+  private async fetchEPGChunkWithRetry(
+    startTimestamp: number | undefined,
+    index: number,
+    total: number
+  ): Promise<EPGResponse> {
+    const label = `EPG chunk ${index + 1}/${total} (${
+      startTimestamp ? new Date(startTimestamp * 1000).toISOString() : 'now'
+    })`;
+
+    let reauthAttempts = 0;
+
+    for (let attempt = 1; ; attempt++) {
+      const deviceAuth = await this.ensureDeviceAuth();
+      await this.rateLimiter.acquire();
+      const chunkStart = Date.now();
+
+      try {
+        const chunkData = await this.fetchEPGChunk(deviceAuth, startTimestamp);
+        console.log(`Fetched ${label} in ${Date.now() - chunkStart}ms (${chunkData.length} channels)`);
+        return chunkData;
+      } catch (error) {
+        if (error instanceof DeviceAuthExpiredError) {
+          if (reauthAttempts >= this.maxReauthAttempts) {
+            throw new Error(
+              `${label} still rejected after ${reauthAttempts} DeviceAuth refreshes: ${error.message}`
+            );
+          }
+
+          reauthAttempts++;
+          console.log(
+            `${label}: DeviceAuth expired, refreshing and re-issuing (re-auth ${reauthAttempts}/${this.maxReauthAttempts})`
+          );
+          await this.refreshDeviceAuth(error.staleToken);
+          attempt--; // Re-auth does not consume a chunk retry
+          continue;
+        }
+
+        const elapsed = Date.now() - chunkStart;
+        if (attempt > this.chunkRetries) {
+          throw new Error(`${label} failed after ${attempt} attempts: ${error}`);
+        }
+
+        const delay = 1000 * attempt;
+        console.warn(
+          `${label} failed after ${elapsed}ms, retrying in ${delay}ms (attempt ${attempt + 1}/${this.chunkRetries + 1})`
+        );
+        await sleep(delay);
+      }
+    }
   }
 
   /**
@@ -137,7 +364,6 @@ export class HDHomeRunClient {
     deviceAuth: string,
     startTimestamp?: number
   ): Promise<EPGResponse> {
-    const baseUrl = 'https://api.hdhomerun.com/api/guide';
     const params = new URLSearchParams({
       DeviceAuth: deviceAuth,
       SynopsisLength: '160',
@@ -147,7 +373,8 @@ export class HDHomeRunClient {
       params.append('Start', startTimestamp.toString());
     }
 
-    const url = `${baseUrl}?${params.toString()}`;
+    const url = `${this.guideApiUrl}?${params.toString()}`;
+    const fixtureName = `guide-${startTimestamp ?? 'initial'}.json`;
 
     const headers = {
       "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:144.0) Gecko/20100101 Firefox/144.0",
@@ -158,19 +385,19 @@ export class HDHomeRunClient {
     };
 
     try {
-      //const response = await this.axiosInstance.post<EPGResponse>(url, postData, { headers });
-      const response = await this.axiosInstance.get<EPGResponse>(url, { headers });
-      return response.data;
+      return await this.getJSON<EPGResponse>(url, fixtureName, headers);
     } catch (error) {
-      // Handle 403 errors by refreshing DeviceAuth
+      // 403 means the DeviceAuth expired - the caller refreshes and re-issues the chunk
       if (axios.isAxiosError(error) && error.response?.status === 403) {
-        console.log('Got 403, DeviceAuth may be expired. Refreshing...');
-        await this.fetchDeviceAuth();
-        throw new Error('DeviceAuth expired, please retry operation');
+        throw new DeviceAuthExpiredError(deviceAuth);
       }
       if (axios.isAxiosError(error) && error.response?.status === 400) {
         // potentially bad timestamp, too far in future? Just continue
         console.log(`HDHomeRun guide API returned 400 bad request, possibly due to no data at the given timestamp (${startTimestamp}). Skipping this chunk.`);
+        // Record the empty chunk so replay skips it the same way
+        if (this.fixtureMode === 'record') {
+          await this.fixtures!.save(fixtureName, []);
+        }
         return [] as EPGResponse;
       }
 
@@ -180,26 +407,53 @@ export class HDHomeRunClient {
   }
 
   /**
-   * Merge new EPG data into existing guide
-   * Deduplicates programs by StartTime
+   * GET a JSON resource, honouring the fixture mode
+   * - replay: read the saved fixture instead of making a request
+   * - record: save the raw response body before returning it
    */
-  private mergeEPGData(baseGuide: EPGResponse, newData: EPGResponse): void {
-    for (const newChannel of newData) {
-      // Find matching channel in base guide
-      const baseChannel = baseGuide.find((ch) => ch.GuideNumber === newChannel.GuideNumber);
-
-      if (baseChannel) {
-        // Add new programs that don't already exist (by StartTime)
-        for (const newProgram of newChannel.Guide) {
-          const exists = baseChannel.Guide.some(
-            (p) => p.StartTime === newProgram.StartTime
-          );
+  private async getJSON<T>(
+    url: string,
+    fixtureName: string,
+    headers?: Record<string, string>
+  ): Promise<T> {
+    if (this.fixtureMode === 'replay') {
+      return this.fixtures!.load<T>(fixtureName);
+    }
 
-          if (!exists) {
-            baseChannel.Guide.push(newProgram);
-          }
-        }
-      }
+    const response = await this.axiosInstance.get<T>(url, { headers });
+
+    if (this.fixtureMode === 'record') {
+      await this.fixtures!.save(fixtureName, response.data);
     }
+
+    return response.data;
+  }
+
+  /**
+   * Current Unix time used to compute guide windows
+   * Replay uses the recorded clock so every chunk timestamp matches a fixture
+   */
+  private async resolveClock(days: number, hoursIncrement: number): Promise<number> {
+    if (this.fixtureMode === 'replay') {
+      const manifest = await this.fixtures!.load<FixtureManifest>('manifest.json');
+      console.log(`Replaying guide recorded at ${manifest.recordedAt}`);
+      return manifest.now;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+
+    if (this.fixtureMode === 'record') {
+      const manifest: FixtureManifest = {
+        host: this.host,
+        recordedAt: new Date(now * 1000).toISOString(),
+        now,
+        guideApiUrl: this.guideApiUrl,
+        days,
+        hoursIncrement,
+      };
+      await this.fixtures!.save('manifest.json', manifest);
+    }
+
+    return now;
   }
 }
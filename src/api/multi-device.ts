@@ -0,0 +1,233 @@
+/**
+ * Multi-Device Support
+ * Fetches lineups and guides from several HDHomeRun devices and merges them
+ * into a single lineup/guide pair for XMLTV generation
+ */
+
+import { HDHomeRunClient } from './hdhomerun-client';
+import { FixtureStore } from './fixture-store';
+import { HDHomeRunDiscovery } from './udp-discovery';
+import { GuideCache } from './guide-cache';
+import type { HDHomeRunClientOptions } from './hdhomerun-client';
+import type { ChannelLineupItem, EPGResponse } from '../types/hdhomerun';
+import type { AppConfig, DuplicateChannelPolicy } from '../types/config';
+
+export interface DeviceStatus {
+  host: string;
+  deviceId: string | null;
+  success: boolean;
+  channels: number;
+  error?: string;
+}
+
+export interface DeviceGuideResult {
+  host: string;
+  deviceId: string;
+  lineup: ChannelLineupItem[];
+  guide: EPGResponse;
+}
+
+export interface DeviceFetchOptions {
+  days: number;
+  hoursIncrement: number;
+  duplicatePolicy: DuplicateChannelPolicy;
+  client: HDHomeRunClientOptions;
+  // Raw guide cache; each device's merged guide is saved to it after fetching
+  cache?: GuideCache;
+  // Re-fetch only near-term and newly added windows on top of the cache
+  incremental?: boolean;
+  nearTermHours?: number;
+}
+
+export interface MultiDeviceResult {
+  lineup: ChannelLineupItem[];
+  guide: EPGResponse;
+  devices: DeviceStatus[];
+}
+
+/**
+ * Client options (guide API URL, fixture record/replay) from app config
+ */
+export function getClientOptions(config: AppConfig): HDHomeRunClientOptions {
+  return {
+    guideApiUrl: config.hdhomerun.guideApiUrl,
+    fixtureMode: config.fixtures.mode,
+    fixturesDirectory: config.fixtures.directory,
+    guideConcurrency: config.hdhomerun.guideConcurrency,
+    guideRequestsPerSecond: config.hdhomerun.guideRequestsPerSecond,
+    guideChunkRetries: config.hdhomerun.guideChunkRetries,
+    deviceAuthMaxAgeMinutes: config.hdhomerun.deviceAuthMaxAgeMinutes,
+    maxReauthAttempts: config.hdhomerun.maxReauthAttempts,
+  };
+}
+
+/**
+ * Hosts to query for this run
+ * Replay without configured hosts uses every device recorded in the fixtures
+ * directory; otherwise falls back to UDP discovery
+ */
+export async function resolveDeviceHosts(
+  config: AppConfig,
+  discovery: HDHomeRunDiscovery,
+  rescan: boolean = false
+): Promise<string[]> {
+  if (config.fixtures.mode === 'replay' && config.hdhomerun.hosts.length === 0) {
+    const hosts = await FixtureStore.listHosts(config.fixtures.directory);
+    if (hosts.length === 0) {
+      throw new Error(`No recorded devices found in ${config.fixtures.directory}`);
+    }
+    return hosts;
+  }
+
+  return discovery.resolveHosts(config.hdhomerun.hosts, rescan);
+}
+
+/**
+ * Fetch lineup and EPG data from every configured device
+ * Unreachable devices are logged and skipped so the others still produce a
+ * partial guide; throws only when no device succeeds
+ */
+export async function fetchAllDevices(
+  hosts: string[],
+  options: DeviceFetchOptions
+): Promise<MultiDeviceResult> {
+  const { days, hoursIncrement, cache } = options;
+  const results: DeviceGuideResult[] = [];
+  const devices: DeviceStatus[] = [];
+
+  for (const host of hosts) {
+    console.log(`\n--- Device ${host} ---`);
+    const client = new HDHomeRunClient(host, options.client);
+
+    try {
+      // Always refresh DeviceAuth before update - each device has its own token
+      console.log('Fetching DeviceAuth token...');
+      await client.fetchDeviceAuth();
+
+      console.log('Fetching channel lineup...');
+      const lineup = await client.fetchLineup();
+
+      console.log(`Fetching EPG data (${days} days, ${hoursIncrement} hour windows)...`);
+      const cached = cache && options.incremental ? await cache.load(host) : null;
+      const snapshot = await client.refreshEPGData(
+        cached,
+        days,
+        hoursIncrement,
+        options.nearTermHours
+      );
+      const guide = snapshot.guide;
+      if (cache) {
+        await cache.save(host, snapshot, client.getDeviceId(), lineup);
+      }
+      console.log(`Retrieved EPG data for ${guide.length} channels from ${host}`);
+
+      const deviceId = client.getDeviceId() || host;
+      results.push({ host, deviceId, lineup, guide });
+      devices.push({ host, deviceId, success: true, channels: lineup.length });
+    } catch (error) {
+      console.error(`Device ${host} failed, continuing with remaining devices: ${error}`);
+      devices.push({
+        host,
+        deviceId: client.getDeviceId(),
+        success: false,
+        channels: 0,
+        error: String(error),
+      });
+    }
+  }
+
+  if (results.length === 0) {
+    throw new Error(`All ${hosts.length} HDHomeRun device(s) failed`);
+  }
+
+  if (results.length < hosts.length) {
+    console.warn(`Partial guide: ${results.length} of ${hosts.length} devices responded`);
+  }
+
+  return { ...mergeDeviceResults(results, options.duplicatePolicy), devices };
+}
+
+/**
+ * Fetch and merge lineups only (used for on-demand dummy programming)
+ * Devices that fail are skipped
+ */
+export async function fetchMergedLineup(
+  hosts: string[],
+  policy: DuplicateChannelPolicy,
+  clientOptions: HDHomeRunClientOptions = {}
+): Promise<ChannelLineupItem[]> {
+  const results: DeviceGuideResult[] = [];
+
+  for (const host of hosts) {
+    const client = new HDHomeRunClient(host, clientOptions);
+    try {
+      // DeviceID is only needed to namespace channel ids
+      if (policy === 'namespace') {
+        await client.fetchDeviceAuth();
+      }
+      const lineup = await client.fetchLineup();
+      results.push({ host, deviceId: client.getDeviceId() || host, lineup, guide: [] });
+    } catch (error) {
+      console.warn(`Failed to fetch lineup from ${host}: ${error}`);
+    }
+  }
+
+  return mergeDeviceResults(results, policy).lineup;
+}
+
+/**
+ * Merge per-device results into one lineup and guide
+ * Devices are processed in configuration order, so with prefer-first the
+ * earliest listed device wins any duplicate GuideNumber. A single device goes
+ * through the same path so namespaced ids do not change when a tuner is offline.
+ */
+export function mergeDeviceResults(
+  results: DeviceGuideResult[],
+  policy: DuplicateChannelPolicy
+): { lineup: ChannelLineupItem[]; guide: EPGResponse } {
+  const lineup: ChannelLineupItem[] = [];
+  const guide: EPGResponse = [];
+  const lineupOwners = new Map<string, string>();
+  const guideOwners = new Map<string, string>();
+
+  for (const result of results) {
+    for (const item of result.lineup) {
+      const channelId = resolveChannelId(item.GuideNumber, result.deviceId, policy);
+      const owner = lineupOwners.get(channelId);
+
+      if (owner) {
+        console.log(`Duplicate channel ${item.GuideNumber} on ${result.host}, keeping ${owner}`);
+        continue;
+      }
+
+      lineupOwners.set(channelId, result.host);
+      lineup.push({ ...item, GuideNumber: channelId, DeviceID: result.deviceId });
+    }
+  }
+
+  // Listings come from the device whose lineup entry was kept, so a channel
+  // never pairs one device's lineup with another's guide
+  for (const result of results) {
+    for (const channel of result.guide) {
+      const channelId = resolveChannelId(channel.GuideNumber, result.deviceId, policy);
+
+      const lineupOwner = lineupOwners.get(channelId);
+      if (guideOwners.has(channelId) || (lineupOwner && lineupOwner !== result.host)) {
+        continue;
+      }
+
+      guideOwners.set(channelId, result.host);
+      guide.push({ ...channel, GuideNumber: channelId, DeviceID: result.deviceId });
+    }
+  }
+
+  return { lineup, guide };
+}
+
+function resolveChannelId(
+  guideNumber: string,
+  deviceId: string,
+  policy: DuplicateChannelPolicy
+): string {
+  return policy === 'namespace' ? `${guideNumber}@${deviceId}` : guideNumber;
+}
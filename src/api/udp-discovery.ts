@@ -0,0 +1,349 @@
+/**
+ * HDHomeRun UDP Discovery
+ * Finds tuners on the LAN using the SiliconDust discovery protocol
+ *
+ * Used when no HDHOMERUN_HOST is configured, since hdhomerun.local relies on
+ * mDNS which is frequently unavailable inside Docker bridge networks and Unraid.
+ * Broadcasts do not cross those networks either, so when nothing answers the
+ * old hdhomerun.local default is still tried.
+ *
+ * Packet layout: type (u16 BE) | payload length (u16 BE) | TLV payload | CRC32 (u32 LE)
+ * TLV layout: tag (u8) | length (1-2 byte varlen) | value
+ */
+
+import dgram from 'dgram';
+import { promises as dns } from 'dns';
+
+export const DISCOVERY_PORT = 65001;
+export const FALLBACK_HOST = 'hdhomerun.local';
+
+const TYPE_DISCOVER_REQ = 0x0002;
+const TYPE_DISCOVER_RPY = 0x0003;
+
+const TAG_DEVICE_TYPE = 0x01;
+const TAG_DEVICE_ID = 0x02;
+const TAG_TUNER_COUNT = 0x10;
+const TAG_LINEUP_URL = 0x27;
+const TAG_BASE_URL = 0x2a;
+
+const DEVICE_TYPE_TUNER = 0x00000001;
+const DEVICE_TYPE_WILDCARD = 0xffffffff;
+const DEVICE_ID_WILDCARD = 0xffffffff;
+
+export interface DiscoveredDevice {
+  deviceId: string;
+  deviceType: number;
+  host: string;
+  address: string;
+  baseUrl: string | null;
+  lineupUrl: string | null;
+  tunerCount: number | null;
+  discoveredAt: string;
+}
+
+export interface DiscoveryOptions {
+  timeoutMs: number;
+  broadcastAddress: string;
+  port: number;
+  fallbackHost?: string; // Used when discovery finds nothing; defaults to hdhomerun.local
+}
+
+export class HDHomeRunDiscovery {
+  private readonly options: DiscoveryOptions;
+  private devices: DiscoveredDevice[] = [];
+  private lastScan: string | null = null;
+
+  constructor(options: DiscoveryOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Broadcast a discover request and collect tuner replies until the timeout
+   */
+  async discover(): Promise<DiscoveredDevice[]> {
+    const { timeoutMs, broadcastAddress, port } = this.options;
+    console.log(
+      `Discovering HDHomeRun devices via UDP broadcast to ${broadcastAddress}:${port}...`
+    );
+
+    const found = new Map<string, DiscoveredDevice>();
+    const socket = dgram.createSocket('udp4');
+
+    // Listen for errors for the whole scan; an unhandled 'error' event would
+    // take the process down. Errors before the request is sent fail the scan.
+    const logError = (error: Error) => console.warn(`Discovery socket error: ${error}`);
+    let onError: (error: Error) => void = logError;
+    socket.on('error', (error) => onError(error));
+
+    socket.on('message', (message, remote) => {
+      // One bad packet on the LAN must not take the process down
+      let device: DiscoveredDevice | null;
+      try {
+        device = decodeDiscoverReply(message, remote.address);
+      } catch (error) {
+        console.warn(`Ignoring malformed discovery reply from ${remote.address}: ${error}`);
+        return;
+      }
+      if (device && device.deviceType === DEVICE_TYPE_TUNER && !found.has(device.deviceId)) {
+        console.log(`Discovered HDHomeRun ${device.deviceId} at ${device.host}`);
+        found.set(device.deviceId, device);
+      }
+    });
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        onError = reject;
+        socket.bind(0, () => {
+          socket.setBroadcast(true);
+          socket.send(encodeDiscoverRequest(), port, broadcastAddress, (error) =>
+            error ? reject(error) : resolve()
+          );
+        });
+      });
+
+      onError = logError;
+      await new Promise((resolve) => setTimeout(resolve, timeoutMs));
+    } finally {
+      socket.close();
+    }
+
+    this.devices = [...found.values()];
+    this.lastScan = new Date().toISOString();
+    console.log(`Discovery complete: ${this.devices.length} device(s) found`);
+    return this.devices;
+  }
+
+  /**
+   * Hosts to query: configured hosts take precedence, otherwise discovered devices
+   * Rescans when nothing has been discovered yet or a fresh scan is requested.
+   * When discovery finds nothing the fallback host is used if it resolves.
+   */
+  async resolveHosts(configuredHosts: string[], rescan: boolean = false): Promise<string[]> {
+    if (configuredHosts.length > 0) {
+      return configuredHosts;
+    }
+
+    if (rescan || this.devices.length === 0) {
+      await this.discover();
+    }
+
+    if (this.devices.length === 0) {
+      const fallbackHost = this.options.fallbackHost || FALLBACK_HOST;
+      try {
+        await dns.lookup(fallbackHost);
+      } catch (error) {
+        throw new Error(
+          `No HDHomeRun devices found via UDP discovery, ${fallbackHost} does not resolve (${error}) and HDHOMERUN_HOST is not set`
+        );
+      }
+      console.warn(`No HDHomeRun devices found via UDP discovery, falling back to ${fallbackHost}`);
+      return [fallbackHost];
+    }
+
+    return this.devices.map((device) => device.host);
+  }
+
+  getDevices(): DiscoveredDevice[] {
+    return this.devices;
+  }
+
+  getLastScan(): string | null {
+    return this.lastScan;
+  }
+}
+
+/**
+ * Build a discover request matching any tuner on the network
+ */
+export function encodeDiscoverRequest(): Buffer {
+  const payload = Buffer.concat([
+    encodeTLV(TAG_DEVICE_TYPE, uint32(DEVICE_TYPE_WILDCARD)),
+    encodeTLV(TAG_DEVICE_ID, uint32(DEVICE_ID_WILDCARD)),
+  ]);
+  return encodePacket(TYPE_DISCOVER_REQ, payload);
+}
+
+/**
+ * Build a discover reply (used by local stand-in responders)
+ */
+export function encodeDiscoverReply(device: {
+  deviceId: string;
+  deviceType?: number;
+  baseUrl?: string;
+  lineupUrl?: string;
+  tunerCount?: number;
+}): Buffer {
+  const tlvs = [
+    encodeTLV(TAG_DEVICE_TYPE, uint32(device.deviceType ?? DEVICE_TYPE_TUNER)),
+    encodeTLV(TAG_DEVICE_ID, uint32(parseInt(device.deviceId, 16))),
+  ];
+
+  if (device.tunerCount !== undefined) {
+    tlvs.push(encodeTLV(TAG_TUNER_COUNT, Buffer.from([device.tunerCount])));
+  }
+  if (device.baseUrl) {
+    tlvs.push(encodeTLV(TAG_BASE_URL, Buffer.from(device.baseUrl, 'utf-8')));
+  }
+  if (device.lineupUrl) {
+    tlvs.push(encodeTLV(TAG_LINEUP_URL, Buffer.from(device.lineupUrl, 'utf-8')));
+  }
+
+  return encodePacket(TYPE_DISCOVER_RPY, Buffer.concat(tlvs));
+}
+
+/**
+ * Parse a discover reply packet
+ * Returns null for packets that are malformed, fail the CRC check or are not replies
+ */
+export function decodeDiscoverReply(packet: Buffer, address: string): DiscoveredDevice | null {
+  if (packet.length < 8) {
+    return null;
+  }
+
+  const type = packet.readUInt16BE(0);
+  const length = packet.readUInt16BE(2);
+
+  if (type !== TYPE_DISCOVER_RPY || packet.length !== length + 8) {
+    return null;
+  }
+
+  const expectedCrc = packet.readUInt32LE(4 + length);
+  if (crc32(packet.subarray(0, 4 + length)) !== expectedCrc) {
+    return null;
+  }
+
+  let deviceId: string | null = null;
+  let deviceType = 0;
+  let baseUrl: string | null = null;
+  let lineupUrl: string | null = null;
+  let tunerCount: number | null = null;
+
+  let pos = 4;
+  const end = 4 + length;
+
+  while (pos < end) {
+    // Tag and at least one length byte
+    if (pos + 2 > end) {
+      return null;
+    }
+    const tag = packet[pos++];
+    let valueLength = packet[pos++];
+    if (valueLength & 0x80) {
+      if (pos >= end) {
+        return null;
+      }
+      valueLength = (valueLength & 0x7f) | (packet[pos++] << 7);
+    }
+
+    if (pos + valueLength > end) {
+      return null;
+    }
+
+    const value = packet.subarray(pos, pos + valueLength);
+    pos += valueLength;
+
+    switch (tag) {
+      case TAG_DEVICE_TYPE:
+        if (value.length !== 4) {
+          return null;
+        }
+        deviceType = value.readUInt32BE(0);
+        break;
+      case TAG_DEVICE_ID:
+        if (value.length !== 4) {
+          return null;
+        }
+        deviceId = value.readUInt32BE(0).toString(16).toUpperCase().padStart(8, '0');
+        break;
+      case TAG_TUNER_COUNT:
+        if (value.length !== 1) {
+          return null;
+        }
+        tunerCount = value[0];
+        break;
+      case TAG_BASE_URL:
+        baseUrl = value.toString('utf-8');
+        break;
+      case TAG_LINEUP_URL:
+        lineupUrl = value.toString('utf-8');
+        break;
+    }
+  }
+
+  if (!deviceId) {
+    return null;
+  }
+
+  return {
+    deviceId,
+    deviceType,
+    host: hostFromBaseUrl(baseUrl) || address,
+    address,
+    baseUrl,
+    lineupUrl,
+    tunerCount,
+    discoveredAt: new Date().toISOString(),
+  };
+}
+
+function hostFromBaseUrl(baseUrl: string | null): string | null {
+  if (!baseUrl) {
+    return null;
+  }
+
+  try {
+    return new URL(baseUrl).host;
+  } catch {
+    return null;
+  }
+}
+
+function encodePacket(type: number, payload: Buffer): Buffer {
+  const header = Buffer.alloc(4);
+  header.writeUInt16BE(type, 0);
+  header.writeUInt16BE(payload.length, 2);
+
+  const body = Buffer.concat([header, payload]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32LE(crc32(body), 0);
+
+  return Buffer.concat([body, crc]);
+}
+
+function encodeTLV(tag: number, value: Buffer): Buffer {
+  const length =
+    value.length <= 0x7f
+      ? Buffer.from([value.length])
+      : Buffer.from([(value.length & 0x7f) | 0x80, value.length >> 7]);
+  return Buffer.concat([Buffer.from([tag]), length, value]);
+}
+
+function uint32(value: number): Buffer {
+  const buf = Buffer.alloc(4);
+  buf.writeUInt32BE(value >>> 0, 0);
+  return buf;
+}
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Standard CRC32 (IEEE 802.3) as used by libhdhomerun
+ */
+function crc32(data: Buffer): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+      let c = i;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[i] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
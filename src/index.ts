@@ -8,6 +8,7 @@ import { getConfig } from './types/config';
 import { EPGServer } from './server/express-server';
 import { EPGUpdater } from './scheduler/epg-updater';
 import { CronScheduler } from './scheduler/cron-scheduler';
+import { HDHomeRunDiscovery, DISCOVERY_PORT } from './api/udp-discovery';
 
 async function main() {
   console.log('========================================');
@@ -18,17 +19,33 @@ async function main() {
   const config = getConfig();
 
   console.log('\nConfiguration:');
-  console.log(`  HDHomeRun Host: ${config.hdhomerun.host}`);
+  console.log(
+    `  HDHomeRun Host(s): ${config.hdhomerun.hosts.join(', ') || 'auto-discovery (UDP)'}`
+  );
+  console.log(`  Duplicate Channels: ${config.hdhomerun.duplicatePolicy}`);
   console.log(`  EPG Days: ${config.hdhomerun.days}`);
+  console.log(
+    `  Incremental Refresh: ${config.cache.incremental ? `on (${config.cache.nearTermHours}h near-term)` : 'off'}`
+  );
+  if (config.fixtures.mode !== 'live') {
+    console.log(`  Fixture Mode: ${config.fixtures.mode} (${config.fixtures.directory})`);
+  }
   console.log(`  Update Schedule: ${config.scheduler.cronSchedule}`);
-  console.log(`  Timezone: ${config.timezone}`);
+  console.log(
+    `  Timezone: ${config.timezone}${config.output.timeZone === 'UTC' ? ' (XMLTV timestamps in UTC)' : ''}`
+  );
   console.log(`  HTTP Port: ${config.server.port}`);
   console.log(`  Output: ${config.output.directory}/${config.output.filename}`);
   console.log('');
 
   // Initialize components
-  const updater = new EPGUpdater(config);
-  const server = new EPGServer(config);
+  const discovery = new HDHomeRunDiscovery({
+    timeoutMs: config.discovery.timeoutMs,
+    broadcastAddress: config.discovery.broadcastAddress,
+    port: DISCOVERY_PORT,
+  });
+  const updater = new EPGUpdater(config, discovery);
+  const server = new EPGServer(config, discovery, updater);
   const scheduler = new CronScheduler(config, updater);
 
   // Start HTTP server
@@ -0,0 +1,60 @@
+/**
+ * M3U Playlist Generator
+ * Builds an extended M3U playlist from the device lineup whose tvg-ids match
+ * the XMLTV channel ids, for IPTV clients that pair a playlist with a guide
+ */
+
+import { ChannelFilter } from '../xmltv/channel-filter';
+import { ChannelMap } from '../xmltv/channel-map';
+import type { ChannelLineupItem } from '../types/hdhomerun';
+
+export interface M3UOptions {
+  channelFilter?: ChannelFilter;
+  channelMap?: ChannelMap;
+  logos?: Map<string, string>; // GuideNumber -> logo URL from the guide
+  groupTitle: string;
+  guideUrl?: string; // Advertised as url-tvg in the header
+}
+
+/**
+ * Generate the playlist; lineup entries without a stream URL are skipped
+ */
+export function generateM3U(lineup: ChannelLineupItem[], options: M3UOptions): string {
+  const channelMap = options.channelMap || new ChannelMap();
+  const selected = lineup.filter(
+    (item) =>
+      item.URL &&
+      (!options.channelFilter ||
+        options.channelFilter.matches(item.GuideNumber, item.GuideName, item))
+  );
+
+  const lines = [options.guideUrl ? `#EXTM3U url-tvg="${attribute(options.guideUrl)}"` : '#EXTM3U'];
+
+  for (const item of channelMap.sort(selected, (entry) => entry.GuideNumber)) {
+    const mapped = channelMap.resolve(item.GuideNumber, item.GuideName);
+    const name = mapped.displayNames[0];
+    const attributes = [
+      `tvg-id="${attribute(mapped.id)}"`,
+      `tvg-name="${attribute(name)}"`,
+      `tvg-chno="${attribute(mapped.number)}"`,
+    ];
+
+    const logo = options.logos?.get(item.GuideNumber);
+    if (logo) {
+      attributes.push(`tvg-logo="${attribute(logo)}"`);
+    }
+    attributes.push(`group-title="${attribute(mapped.group || options.groupTitle)}"`);
+
+    lines.push(`#EXTINF:-1 ${attributes.join(' ')},${name.replace(/[\r\n]+/g, ' ')}`);
+    lines.push(String(item.URL));
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * M3U has no escaping for attribute values, so strip quotes and line breaks
+ */
+function attribute(value: string): string {
+  return value.replace(/"/g, "'").replace(/[\r\n]+/g, ' ');
+}
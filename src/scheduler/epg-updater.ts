@@ -5,11 +5,27 @@
 
 import { promises as fs } from 'fs';
 import path from 'path';
-import { HDHomeRunClient } from '../api/hdhomerun-client';
+import { mergeDeviceResults } from '../api/multi-device';
+import { HDHomeRunDiscovery } from '../api/udp-discovery';
+import { GuideCache, computeCoverageEnd, pruneEndedProgrammes } from '../api/guide-cache';
 import { XMLTVGenerator } from '../xmltv/generator';
-import { validateXMLTV } from '../xmltv/validator';
 import { streamDummyProgramming } from '../xmltv/streaming-dummy';
+import { fillTimelineTails, repairTimeline } from '../xmltv/timeline-fill';
+import { ChannelFilter } from '../xmltv/channel-filter';
+import { ParentalFilter } from '../xmltv/content-rating';
+import { loadChannelMap } from '../xmltv/channel-map';
+import { loadCategoryMapper } from '../xmltv/category-mapper';
+import { LanguageResolver } from '../xmltv/language';
+import { loadRewriteRules } from '../xmltv/rewrite-rules';
+import { FeatureTagParser } from '../xmltv/feature-tags';
+import { HDHomeRunGuideSource } from '../sources/hdhomerun-source';
+import { createFileSources, fetchGuideSources } from '../sources/guide-sources';
+import type { DeviceGuideResult, DeviceStatus } from '../api/multi-device';
+import type { PlaceholderOptions, TimelineRepairKind } from '../xmltv/timeline-fill';
+import type { RewriteReport } from '../xmltv/rewrite-rules';
 import type { AppConfig } from '../types/config';
+import type { ChannelLineupItem, EPGResponse } from '../types/hdhomerun';
+import type { GuideData, GuideSource } from '../types/guide-source';
 
 export interface UpdateResult {
   success: boolean;
@@ -17,12 +33,54 @@ export interface UpdateResult {
   error?: string;
 }
 
+/**
+ * Guide freshness state
+ * - unknown: no update has run yet in this process
+ * - ok: the last update succeeded
+ * - degraded: the last update failed and the last-known-good guide is served
+ */
+export type GuideState = 'unknown' | 'ok' | 'degraded';
+
+export interface GuideHealth {
+  state: GuideState;
+  coverageEnd: number | null; // Unix time the served guide runs out for a typical channel
+  lastSuccess: string | null;
+  lastFailure: string | null;
+  lastError: string | null;
+  degradedSince: string | null;
+  toppedUpWithDummy: boolean;
+}
+
 export class EPGUpdater {
   private config: AppConfig;
+  private guideCache: GuideCache;
+  private hdhomerunSource: HDHomeRunGuideSource;
+  private sources: GuideSource[];
+  private channelFilter: ChannelFilter;
+  private parentalFilter: ParentalFilter;
+  // Lineup of the last successful fetch, reused when republishing from the cache
+  private lastLineup: ChannelLineupItem[] = [];
+  private lastRewriteReport: RewriteReport | null = null;
+  // Channel logos (GuideNumber -> ImageURL) from the last successful fetch
+  private channelLogos = new Map<string, string>();
   private isUpdating = false;
-
-  constructor(config: AppConfig) {
+  private health: GuideHealth = {
+    state: 'unknown',
+    coverageEnd: null,
+    lastSuccess: null,
+    lastFailure: null,
+    lastError: null,
+    degradedSince: null,
+    toppedUpWithDummy: false,
+  };
+
+  constructor(config: AppConfig, discovery: HDHomeRunDiscovery) {
     this.config = config;
+    this.guideCache = new GuideCache(config.cache.directory);
+    this.hdhomerunSource = new HDHomeRunGuideSource(config, discovery, this.guideCache);
+    this.sources = [this.hdhomerunSource, ...createFileSources(config)];
+    this.channelFilter = new ChannelFilter(config.channels);
+    this.parentalFilter = new ParentalFilter(config.parental);
   }
 
   /**
@@ -45,68 +103,15 @@ export class EPGUpdater {
       console.log('========== EPG Update Started ==========');
       console.log(`Time: ${new Date().toISOString()}`);
 
-      // Step 1: Initialize HDHomeRun client
-      console.log('\n[1/6] Initializing HDHomeRun client...');
-      const client = new HDHomeRunClient(this.config.hdhomerun.host);
+      // Step 1: Fetch listings from every guide source
+      console.log(`\n[1/3] Fetching guide data from ${this.sources.length} source(s)...`);
+      const data = await fetchGuideSources(this.sources);
+      this.lastLineup = data.lineup;
+      this.channelLogos = collectLogos(data.guide);
+      console.log(`Combined lineup: ${data.lineup.length} channels, EPG data for ${data.guide.length} channels`);
 
-      // Step 2: Fetch DeviceAuth (always refresh before update)
-      console.log('[2/6] Fetching DeviceAuth token...');
-      await client.fetchDeviceAuth();
-
-      // Step 3: Fetch channel lineup
-      console.log('[3/6] Fetching channel lineup...');
-      const lineup = await client.fetchLineup();
-      console.log(`Found ${lineup.length} channels`);
-
-      // Step 4: Fetch EPG data
-      console.log(
-        `[4/6] Fetching EPG data (${this.config.hdhomerun.days} days, ${this.config.hdhomerun.hoursIncrement} hour windows)...`
-      );
-      const epgData = await client.fetchEPGData(
-        this.config.hdhomerun.days,
-        this.config.hdhomerun.hoursIncrement
-      );
-      console.log(`Retrieved EPG data for ${epgData.length} channels`);
-
-      // Step 5: Generate XMLTV
-      console.log('[5/6] Generating XMLTV...');
-      const generator = new XMLTVGenerator();
-      const deviceUrl = `http://${this.config.hdhomerun.host}/discover.json`;
-      const xmlContent = generator.generate(epgData, lineup, deviceUrl);
-      console.log(`Generated XML (${Math.round(xmlContent.length / 1024)} KB)`);
-
-      // Step 6: Validate and write versioned file
-      console.log('[6/6] Validating and writing EPG file...');
-      const validationResult = validateXMLTV(xmlContent);
-
-      if (!validationResult.valid) {
-        throw new Error(`XML validation failed: ${validationResult.error}`);
-      }
-
-      console.log('XML validation passed');
-
-      // Write versioned EPG file
-      const versionedPath = await this.writeVersionedEPGFile(xmlContent);
-
-      // Add dummy programming if enabled
-      let finalPath = versionedPath;
-      if (this.config.dummyProgramming?.enabled) {
-        console.log('Adding dummy programming to versioned file...');
-        const dummyPath = versionedPath.replace('.xml', '-with-dummy.xml');
-        await streamDummyProgramming(versionedPath, dummyPath, {
-          duration: '1hr',
-          title: this.config.dummyProgramming.title,
-          description: this.config.dummyProgramming.description,
-          daysFilter: this.config.hdhomerun.days,
-        }, this.config.hdhomerun.host);
-        finalPath = dummyPath;
-      }
-
-      // Update symlink to point to current version
-      await this.updateSymlink(finalPath);
-
-      // Clean up old versions
-      await this.cleanupOldVersions();
+      const finalPath = await this.publishGuide(data, this.hdhomerunSource.getDeviceUrl());
+      this.markHealthy(computeCoverageEnd(data.guide));
 
       const duration = ((Date.now() - startTime) / 1000).toFixed(2);
       console.log('\n========== EPG Update Completed ==========');
@@ -124,6 +129,8 @@ export class EPGUpdater {
       console.error(`Duration: ${duration} seconds`);
       console.error('Error:', error);
 
+      await this.markDegraded(String(error));
+
       return {
         success: false,
         message: `EPG update failed after ${duration}s`,
@@ -134,12 +141,306 @@ export class EPGUpdater {
     }
   }
 
+  /**
+   * Generate, validate and write the XMLTV file, then point the symlink at it
+   * The suffix keeps a republished guide from overwriting today's versioned file.
+   * Returns the path of the published versioned file
+   */
+  private async publishGuide(data: GuideData, deviceUrl: string, suffix = ''): Promise<string> {
+    // Step 2: Stream XMLTV to the versioned file, validating as it is written
+    console.log('[2/3] Generating and validating XMLTV...');
+    const rewritten = await this.rewriteGuide(data.guide);
+    data = { ...data, guide: this.repairTimelines(this.parentalFilter.filterGuide(rewritten)) };
+    const channelMap = await loadChannelMap(this.config.channelMapFile);
+    const language = new LanguageResolver(this.config.language);
+    const generator = new XMLTVGenerator({
+      channelFilter: this.channelFilter,
+      channelMap,
+      timeZone: this.config.output.timeZone,
+      localTimeZone: this.config.timezone,
+      displayNames: this.config.channelMetadata.displayNames,
+      lcn: this.config.channelMetadata.lcn,
+      url: this.config.channelMetadata.url,
+      sports: this.config.categories.sports,
+      categoryMapper: this.config.categories.normalize
+        ? await loadCategoryMapper(this.config.categories.rulesFile)
+        : undefined,
+      language,
+      featureTags: new FeatureTagParser(this.config.featureTags),
+    });
+    const versionedPath = await this.writeVersionedEPGFile(generator, data, deviceUrl, suffix);
+
+    // Step 3: Post-process and publish
+    console.log('[3/3] Publishing EPG file...');
+
+    // Add dummy programming if enabled
+    let finalPath = versionedPath;
+    if (this.config.dummyProgramming?.enabled) {
+      console.log('Adding dummy programming to versioned file...');
+      const dummyPath = versionedPath.replace('.xml', '-with-dummy.xml');
+      await streamDummyProgramming(
+        versionedPath,
+        dummyPath,
+        {
+          duration: '1hr',
+          title: this.config.dummyProgramming.title,
+          description: this.config.dummyProgramming.description,
+          daysFilter: this.config.hdhomerun.days,
+          channelFilter: this.channelFilter,
+          channelMap,
+          timeZone: this.config.timezone,
+          outputTimeZone: this.config.output.timeZone,
+          displayNames: this.config.channelMetadata.displayNames,
+          language,
+        },
+        data.lineup
+      );
+      finalPath = dummyPath;
+    }
+
+    // Update symlink to point to current version
+    await this.updateSymlink(finalPath);
+
+    // Clean up old versions
+    await this.cleanupOldVersions();
+
+    return finalPath;
+  }
+
+  /**
+   * Record a successful update and leave degraded mode if we were in it
+   */
+  private markHealthy(coverageEnd: number | null) {
+    if (this.health.state === 'degraded') {
+      console.log(`Recovered from degraded mode (degraded since ${this.health.degradedSince})`);
+    }
+
+    this.health = {
+      ...this.health,
+      state: 'ok',
+      coverageEnd,
+      lastSuccess: new Date().toISOString(),
+      lastError: null,
+      degradedSince: null,
+      toppedUpWithDummy: false,
+    };
+  }
+
+  /**
+   * Apply the rewrite rules file, logging how often each rule fired and
+   * keeping that report for /status
+   * The rules file is re-read on every publish so edits apply without a restart
+   */
+  private async rewriteGuide(guide: EPGResponse): Promise<EPGResponse> {
+    const rules = await loadRewriteRules(this.config.rewrite.rulesFile);
+    if (!rules.isEnabled()) {
+      this.lastRewriteReport = null;
+      return guide;
+    }
+
+    const dryRun = this.config.rewrite.dryRun;
+    const { guide: rewritten, report } = rules.apply(guide, dryRun);
+    this.lastRewriteReport = { dryRun, generatedAt: new Date().toISOString(), rules: report };
+
+    console.log(dryRun ? 'Rewrite rules dry run (guide unchanged):' : 'Rewrite rules:');
+    for (const { name, hits, example } of report) {
+      console.log(`  ${name}: ${hits} programmes${example ? `, e.g. ${example}` : ''}`);
+    }
+
+    return rewritten;
+  }
+
+  /**
+   * Trim or drop overlapping programmes and fill holes per the timeline config
+   * Every repair is logged, followed by a count per kind
+   */
+  private repairTimelines(guide: EPGResponse): EPGResponse {
+    const settings = this.config.timeline;
+    // Repair is opt-in; by default listings are published as the sources gave them
+    if (settings.overlapPolicy === 'none' && !settings.fillGaps && !settings.fillTail) {
+      return guide;
+    }
+
+    const { guide: repaired, repairs } = repairTimeline(guide, {
+      overlapPolicy: settings.overlapPolicy,
+      fillGaps: settings.fillGaps,
+      fillTail: settings.fillTail,
+      minGapSeconds: Math.max(60, settings.minGapMinutes * 60),
+      until: Math.floor(Date.now() / 1000) + this.config.hdhomerun.days * 86400,
+      placeholder: this.getPlaceholderOptions(),
+    });
+
+    if (repairs.length === 0) {
+      return repaired;
+    }
+
+    const counts: Record<TimelineRepairKind, number> = { invalid: 0, trim: 0, drop: 0, gap: 0, tail: 0 };
+    for (const repair of repairs) {
+      counts[repair.kind]++;
+      const range = `${new Date(repair.start * 1000).toISOString()} - ${new Date(repair.end * 1000).toISOString()}`;
+      console.log(
+        `Timeline repair [${repair.kind}] ${repair.channel} ${range}${repair.title ? ` "${repair.title}"` : ''}`
+      );
+    }
+    console.log(
+      `Timeline repairs: ${counts.trim} trimmed, ${counts.drop} dropped, ${counts.invalid} invalid, ` +
+        `${counts.gap} gaps filled, ${counts.tail} tails filled`
+    );
+
+    return repaired;
+  }
+
+  private getPlaceholderOptions(): PlaceholderOptions {
+    return {
+      title: this.config.dummyProgramming?.title || 'No Information',
+      description:
+        this.config.dummyProgramming?.description ||
+        'No program information is currently available for {channel}.',
+      blockHours: 1,
+    };
+  }
+
+  /**
+   * Enter degraded mode after a failed update
+   * The previous guide keeps being served; its remaining coverage is recorded
+   * from the raw guide cache, and when it drops below the configured threshold
+   * the cached guide is republished with placeholder programming appended,
+   * as a separate versioned file. Without a lineup (from this process or the
+   * cache) nothing is republished.
+   */
+  private async markDegraded(error: string) {
+    const now = Math.floor(Date.now() / 1000);
+
+    if (this.health.state !== 'degraded') {
+      console.warn('Entering degraded mode: serving last-known-good guide');
+    }
+
+    this.health = {
+      ...this.health,
+      state: 'degraded',
+      lastFailure: new Date().toISOString(),
+      lastError: error,
+      degradedSince: this.health.degradedSince || new Date().toISOString(),
+    };
+
+    try {
+      const cached = await this.loadCachedGuide(now);
+      if (!cached) {
+        console.warn('No cached guide available - coverage unknown');
+        return;
+      }
+
+      if (this.health.coverageEnd === null) {
+        this.health.coverageEnd = computeCoverageEnd(cached.guide);
+      }
+
+      const coverageHours = this.getCoverageHours();
+      console.warn(`Last-known-good guide covers ${coverageHours?.toFixed(1) ?? 'unknown'} more hours`);
+
+      const threshold = this.config.degraded.dummyThresholdHours;
+      if (threshold <= 0 || coverageHours === null || coverageHours >= threshold) {
+        return;
+      }
+
+      const lineup = this.lastLineup.length > 0 ? this.lastLineup : cached.lineup;
+      if (lineup.length === 0) {
+        console.warn(`Coverage below ${threshold}h but no lineup is known - leaving the published guide alone`);
+        return;
+      }
+
+      console.warn(`Coverage below ${threshold}h - topping up cached guide with dummy programming`);
+      const { guide, added } = fillTimelineTails(
+        cached.guide,
+        now + this.config.hdhomerun.days * 86400,
+        this.getPlaceholderOptions()
+      );
+      console.log(`Added ${added} placeholder programmes`);
+
+      await this.publishGuide({ lineup, guide }, cached.deviceUrl, '-degraded');
+      this.health.toppedUpWithDummy = true;
+    } catch (topUpError) {
+      console.error(`Degraded mode top-up failed: ${topUpError}`);
+    }
+  }
+
+  /**
+   * Rebuild the merged guide and lineup from each device's cached raw guide
+   * Ended programmes are pruned; returns null when no device has a cache.
+   * Before the first fetch of a discovery-mode process no hosts are known,
+   * so the hosts the cache was saved for are used.
+   */
+  private async loadCachedGuide(
+    now: number
+  ): Promise<{ guide: EPGResponse; lineup: ChannelLineupItem[]; deviceUrl: string } | null> {
+    let hosts = this.hdhomerunSource.getLastHosts();
+    if (hosts.length === 0) {
+      hosts = await this.guideCache.loadHosts();
+    }
+    const results: DeviceGuideResult[] = [];
+
+    for (const host of hosts) {
+      const cached = await this.guideCache.load(host);
+      if (cached) {
+        const { guide } = pruneEndedProgrammes(cached.guide, now);
+        results.push({
+          host,
+          deviceId: cached.deviceId || host,
+          lineup: cached.lineup || [],
+          guide,
+        });
+      }
+    }
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    const { lineup, guide } = mergeDeviceResults(results, this.config.hdhomerun.duplicatePolicy);
+    return { guide, lineup, deviceUrl: `http://${results[0].host}/discover.json` };
+  }
+
+  private getCoverageHours(): number | null {
+    if (this.health.coverageEnd === null) {
+      return null;
+    }
+    return Math.max(0, (this.health.coverageEnd - Date.now() / 1000) / 3600);
+  }
+
+  /**
+   * Rewrite rule hits from the most recent update, for /status; null without rules
+   */
+  getRewriteReport(): RewriteReport | null {
+    return this.lastRewriteReport;
+  }
+
+  /**
+   * Guide freshness for /status: state plus remaining hours of future listings
+   */
+  getGuideHealth(): GuideHealth & { coverageHours: number | null; coverageEndTime: string | null } {
+    const coverageHours = this.getCoverageHours();
+    return {
+      ...this.health,
+      coverageHours: coverageHours === null ? null : Math.round(coverageHours * 10) / 10,
+      coverageEndTime:
+        this.health.coverageEnd === null
+          ? null
+          : new Date(this.health.coverageEnd * 1000).toISOString(),
+    };
+  }
+
   /**
    * Write versioned EPG file atomically
-   * Format: epg-YYYY-MM-DD.xml
+   * The generator streams into a temp file that is only renamed into place
+   * once every element has passed validation
+   * Format: epg-YYYY-MM-DD<suffix>.xml
    * Returns path to the versioned file
    */
-  private async writeVersionedEPGFile(content: string): Promise<string> {
+  private async writeVersionedEPGFile(
+    generator: XMLTVGenerator,
+    data: GuideData,
+    deviceUrl: string,
+    suffix: string
+  ): Promise<string> {
     // Ensure output directory exists
     await fs.mkdir(this.config.output.directory, { recursive: true });
 
@@ -148,13 +449,17 @@ export class EPGUpdater {
     const year = date.getFullYear();
     const month = String(date.getMonth() + 1).padStart(2, '0');
     const day = String(date.getDate()).padStart(2, '0');
-    const versionedFilename = `epg-${year}-${month}-${day}.xml`;
+    const versionedFilename = `epg-${year}-${month}-${day}${suffix}.xml`;
     const versionedPath = path.join(this.config.output.directory, versionedFilename);
     const tempPath = `${versionedPath}.tmp`;
 
     try {
-      // Write to temp file
-      await fs.writeFile(tempPath, content, 'utf-8');
+      // Stream to temp file
+      const { channels, programmes } = await generator.writeToFile(data, deviceUrl, tempPath);
+      const { size } = await fs.stat(tempPath);
+      console.log(
+        `XML validation passed: ${channels} channels, ${programmes} programmes (${Math.round(size / 1024)} KB)`
+      );
 
       // Rename atomically
       await fs.rename(tempPath, versionedPath);
@@ -205,7 +510,7 @@ export class EPGUpdater {
     try {
       const files = await fs.readdir(this.config.output.directory);
 
-      // Find all versioned EPG files (epg-YYYY-MM-DD.xml and epg-YYYY-MM-DD-with-dummy.xml)
+      // Find all versioned EPG files (epg-YYYY-MM-DD.xml, -degraded.xml and -with-dummy.xml)
       const versionedFiles = files
         .filter(f => f.startsWith('epg-') && f.endsWith('.xml') && f !== 'epg.xml')
         .map(f => ({
@@ -239,4 +544,49 @@ export class EPGUpdater {
   isUpdateInProgress(): boolean {
     return this.isUpdating;
   }
+
+  /**
+   * Channel logos for the playlist, falling back to the guide cache before
+   * the first update of this process has finished
+   */
+  async getChannelLogos(): Promise<Map<string, string>> {
+    if (this.channelLogos.size === 0) {
+      const cached = await this.loadCachedGuide(Math.floor(Date.now() / 1000));
+      if (cached) {
+        this.channelLogos = collectLogos(cached.guide);
+      }
+    }
+    return this.channelLogos;
+  }
+
+  /**
+   * Channel lineup of the most recent update, falling back to the guide cache
+   * before the first update of this process has finished
+   */
+  async getLineup(): Promise<ChannelLineupItem[]> {
+    if (this.lastLineup.length === 0) {
+      const cached = await this.loadCachedGuide(Math.floor(Date.now() / 1000));
+      if (cached) {
+        this.lastLineup = cached.lineup;
+      }
+    }
+    return this.lastLineup;
+  }
+
+  /**
+   * Per-device outcome of the most recent update
+   */
+  getDeviceStatus(): DeviceStatus[] {
+    return this.hdhomerunSource.getDeviceStatus();
+  }
+}
+
+function collectLogos(guide: EPGResponse): Map<string, string> {
+  const logos = new Map<string, string>();
+  for (const channel of guide) {
+    if (channel.ImageURL) {
+      logos.set(channel.GuideNumber, channel.ImageURL);
+    }
+  }
+  return logos;
 }
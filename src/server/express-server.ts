@@ -6,6 +6,14 @@
 import express, { Express, Request, Response } from 'express';
 import { promises as fs } from 'fs';
 import path from 'path';
+import { HDHomeRunDiscovery } from '../api/udp-discovery';
+import { EPGUpdater } from '../scheduler/epg-updater';
+import { generateM3U } from '../playlist/m3u-generator';
+import { ChannelFilter } from '../xmltv/channel-filter';
+import { loadChannelMap } from '../xmltv/channel-map';
+import { LanguageResolver } from '../xmltv/language';
+import type { GuideHealth } from '../scheduler/epg-updater';
+import type { RewriteReport } from '../xmltv/rewrite-rules';
 import type { AppConfig } from '../types/config';
 
 export interface ServerStatus {
@@ -13,21 +21,27 @@ export interface ServerStatus {
   epgFileExists: boolean;
   epgFileSize: number;
   epgLastModified: string | null;
-  hdhomerunHost: string;
+  hdhomerunHosts: string[];
   updateSchedule: string;
   serverTime: string;
   lastUpdateStatus?: string;
   lastUpdateTime?: string;
+  guide: GuideHealth & { coverageHours: number | null; coverageEndTime: string | null };
+  rewriteRules: RewriteReport | null;
 }
 
 export class EPGServer {
   private app: Express;
   private config: AppConfig;
+  private discovery: HDHomeRunDiscovery;
+  private updater: EPGUpdater;
   private lastUpdateStatus: string = 'not started';
   private lastUpdateTime: string | undefined = undefined;
 
-  constructor(config: AppConfig) {
+  constructor(config: AppConfig, discovery: HDHomeRunDiscovery, updater: EPGUpdater) {
     this.config = config;
+    this.discovery = discovery;
+    this.updater = updater;
     this.app = express();
     this.setupRoutes();
   }
@@ -38,9 +52,15 @@ export class EPGServer {
     this.app.get('/xmltv.xml', this.serveEPG.bind(this)); // Alias
     this.app.get('/guide.xml', this.serveEPG.bind(this)); // Alias
 
+    // M3U playlist matching the guide's channel ids
+    this.app.get('/playlist.m3u', this.servePlaylist.bind(this));
+
     // Status endpoint
     this.app.get('/status', this.serveStatus.bind(this));
 
+    // Discovered devices endpoint
+    this.app.get('/devices', this.serveDevices.bind(this));
+
     // Health check endpoint
     this.app.get('/health', this.serveHealth.bind(this));
 
@@ -104,6 +124,7 @@ export class EPGServer {
           const filteredFile = `${tempFile}.filtered`;
           await streamFilterEPG(currentFile, filteredFile, {
             days: parseInt(daysParam, 10),
+            timeZone: this.config.timezone,
           });
           currentFile = filteredFile;
         }
@@ -113,6 +134,8 @@ export class EPGServer {
           console.log(`Applying dummy programming with duration: ${dummyParam}`);
           const { streamDummyProgramming } = await import('../xmltv/streaming-dummy');
           const dummyFile = `${tempFile}.dummy`;
+          // The lineup of the last update; no discovery or device requests per request
+          const lineup = await this.updater.getLineup();
           await streamDummyProgramming(
             currentFile,
             dummyFile,
@@ -121,8 +144,14 @@ export class EPGServer {
               title: dummyTitleParam || this.config.dummyProgramming?.title || 'No Information',
               description: dummyDescParam || this.config.dummyProgramming?.description || 'No program information is currently available for {channel}.',
               daysFilter: daysParam ? parseInt(daysParam, 10) : undefined,
+              channelFilter: new ChannelFilter(this.config.channels),
+              channelMap: await loadChannelMap(this.config.channelMapFile),
+              timeZone: this.config.timezone,
+              outputTimeZone: this.config.output.timeZone,
+              displayNames: this.config.channelMetadata.displayNames,
+              language: new LanguageResolver(this.config.language),
             },
-            this.config.hdhomerun.host
+            lineup
           );
           currentFile = dummyFile;
         }
@@ -153,6 +182,42 @@ export class EPGServer {
     }
   }
 
+  private async servePlaylist(req: Request, res: Response) {
+    try {
+      const { fetchMergedLineup, getClientOptions, resolveDeviceHosts } = await import(
+        '../api/multi-device'
+      );
+      const hosts = await resolveDeviceHosts(this.config, this.discovery);
+      const lineup = await fetchMergedLineup(
+        hosts,
+        this.config.hdhomerun.duplicatePolicy,
+        getClientOptions(this.config)
+      );
+
+      if (lineup.length === 0) {
+        res.status(503).send('Channel lineup unavailable. Check that the HDHomeRun device is reachable.');
+        return;
+      }
+
+      const playlist = generateM3U(lineup, {
+        channelFilter: new ChannelFilter(this.config.channels),
+        channelMap: await loadChannelMap(this.config.channelMapFile),
+        logos: await this.updater.getChannelLogos(),
+        groupTitle: this.config.playlist.groupTitle,
+        guideUrl: `${req.protocol}://${req.get('host')}/epg.xml`,
+      });
+
+      res.set({
+        'Content-Type': 'audio/x-mpegurl; charset=utf-8',
+        'Access-Control-Allow-Origin': '*',
+      });
+      res.send(playlist);
+    } catch (error) {
+      console.error('Error serving playlist:', error);
+      res.status(500).send(`Failed to build playlist: ${error}`);
+    }
+  }
+
   private async serveStatus(_req: Request, res: Response) {
     const epgPath = path.join(this.config.output.directory, this.config.output.filename);
 
@@ -174,11 +239,13 @@ export class EPGServer {
       epgFileExists: fileExists,
       epgFileSize: fileSize,
       epgLastModified: lastModified,
-      hdhomerunHost: this.config.hdhomerun.host,
+      hdhomerunHosts: this.config.hdhomerun.hosts,
       updateSchedule: this.config.scheduler.cronSchedule,
       serverTime: new Date().toISOString(),
       lastUpdateStatus: this.lastUpdateStatus,
       lastUpdateTime: this.lastUpdateTime,
+      guide: this.updater.getGuideHealth(),
+      rewriteRules: this.updater.getRewriteReport(),
     };
 
     res.set({
@@ -189,6 +256,29 @@ export class EPGServer {
     res.json(status);
   }
 
+  private async serveDevices(req: Request, res: Response) {
+    const configured = this.config.hdhomerun.hosts.length > 0;
+
+    // Allow forcing a fresh scan, e.g. /devices?refresh=1
+    if (req.query.refresh) {
+      try {
+        await this.discovery.discover();
+      } catch (error) {
+        console.error('Device discovery failed:', error);
+        res.status(500).json({ error: 'Device discovery failed', message: String(error) });
+        return;
+      }
+    }
+
+    res.set('Access-Control-Allow-Origin', '*');
+    res.json({
+      mode: configured ? 'configured' : 'discovery',
+      configuredHosts: this.config.hdhomerun.hosts,
+      lastScan: this.discovery.getLastScan(),
+      devices: this.discovery.getDevices(),
+    });
+  }
+
   private serveHealth(_req: Request, res: Response) {
     res.set('Content-Type', 'text/plain');
     res.send('OK');
@@ -304,10 +394,23 @@ export class EPGServer {
       </p>
     </div>
 
+    <div class="endpoint">
+      <h3>M3U Playlist</h3>
+      <a href="/playlist.m3u" target="_blank">/playlist.m3u</a>
+      <p class="description">Channel playlist for IPTV clients (Kodi IPTV Simple, Channels DVR, Threadfin) with tvg-ids matching the EPG</p>
+    </div>
+
     <div class="endpoint">
       <h3>Server Status</h3>
       <a href="/status" target="_blank">/status</a>
-      <p class="description">JSON with current server status and last update time</p>
+      <p class="description">JSON with current server status, last update time and remaining guide coverage</p>
+    </div>
+
+    <div class="endpoint">
+      <h3>Devices</h3>
+      <a href="/devices" target="_blank">/devices</a> - Devices found via UDP discovery<br>
+      <a href="/devices?refresh=1" target="_blank">/devices?refresh=1</a> - Rescan the network
+      <p class="description">JSON list of HDHomeRun tuners with DeviceID and BaseURL</p>
     </div>
 
     <div class="endpoint">
@@ -318,7 +421,7 @@ export class EPGServer {
 
     <div class="status">
       <strong>Configuration:</strong><br>
-      • HDHomeRun Host: ${this.config.hdhomerun.host}<br>
+      • HDHomeRun Host(s): ${this.config.hdhomerun.hosts.join(', ') || 'auto-discovery'}<br>
       • Update Schedule: ${this.config.scheduler.cronSchedule}<br>
       • Port: ${this.config.server.port}
     </div>
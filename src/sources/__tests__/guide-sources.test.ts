@@ -0,0 +1,57 @@
+import { combineGuideData } from '../guide-sources';
+import type { ChannelGuide, ProgrammeGuide } from '../../types/hdhomerun';
+import type { GuideData, GuideSource } from '../../types/guide-source';
+
+function source(name: string, priority: number, fillGaps = false): GuideSource {
+  return { name, priority, required: false, fillGaps, fetch: () => Promise.reject() };
+}
+
+function programme(start: number, end: number, title: string): ProgrammeGuide {
+  return { StartTime: start, EndTime: end, Title: title };
+}
+
+function guideData(channels: ChannelGuide[]): GuideData {
+  return {
+    lineup: channels.map(({ GuideNumber, GuideName }) => ({ GuideNumber, GuideName })),
+    guide: channels,
+  };
+}
+
+describe('combineGuideData', () => {
+  const hdhomerun = guideData([
+    { GuideNumber: '5.1', GuideName: 'KSTP', Guide: [programme(0, 3600, 'News')] },
+    { GuideNumber: '23.1', GuideName: 'KAAA', Guide: [] },
+  ]);
+  const supplemental = guideData([
+    {
+      GuideNumber: '5.1',
+      GuideName: 'KSTP-DT',
+      Guide: [programme(1800, 3600, 'Overlap'), programme(3600, 7200, 'Late Show')],
+    },
+    { GuideNumber: '23.1', GuideName: 'KAAA-LD', Guide: [programme(0, 3600, 'Local')] },
+    { GuideNumber: 'KZZZ.us', GuideName: 'KZZZ', Guide: [programme(0, 3600, 'Elsewhere')] },
+  ]);
+
+  it('fills gaps and empty channels but never adds channels', () => {
+    const combined = combineGuideData([
+      { source: source('hdhomerun', 100), data: hdhomerun },
+      { source: source('supplemental', 10, true), data: supplemental },
+    ]);
+
+    expect(combined.lineup.map((item) => item.GuideName)).toEqual(['KSTP', 'KAAA']);
+    expect(combined.guide.map((channel) => channel.GuideNumber)).toEqual(['5.1', '23.1']);
+    expect(combined.guide[0].Guide.map((p) => p.Title)).toEqual(['News', 'Late Show']);
+    expect(combined.guide[1].Guide.map((p) => p.Title)).toEqual(['Local']);
+  });
+
+  it('never lets a higher-priority supplemental source replace or add channels', () => {
+    const combined = combineGuideData([
+      { source: source('hdhomerun', 100), data: hdhomerun },
+      { source: source('supplemental', 200, true), data: supplemental },
+    ]);
+
+    expect(combined.lineup.map((item) => item.GuideName)).toEqual(['KSTP', 'KAAA']);
+    expect(combined.guide.map((channel) => channel.GuideNumber)).toEqual(['5.1', '23.1']);
+    expect(combined.guide[0].Guide.map((p) => p.Title)).toEqual(['News', 'Late Show']);
+  });
+});
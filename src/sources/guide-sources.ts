@@ -0,0 +1,159 @@
+/**
+ * Guide Source Combination
+ * Builds the configured guide sources and merges their output by priority
+ */
+
+import { XMLTVGuideSource } from './xmltv-source';
+import { JSONFileGuideSource } from './json-file-source';
+import type { AppConfig } from '../types/config';
+import type { ChannelGuide, ChannelLineupItem, ProgrammeGuide } from '../types/hdhomerun';
+import type { GuideData, GuideSource } from '../types/guide-source';
+
+export interface SourceResult {
+  source: GuideSource;
+  data: GuideData;
+}
+
+/**
+ * File and URL sources configured via XMLTV_SOURCE_FILES, JSON_SOURCE_FILES
+ * and SUPPLEMENTAL_XMLTV
+ */
+export function createFileSources(config: AppConfig): GuideSource[] {
+  const sources: GuideSource[] = [
+    ...config.sources.xmltvFiles.map(
+      (file) => new XMLTVGuideSource(file, { priority: config.sources.xmltvPriority })
+    ),
+    ...config.sources.jsonFiles.map(
+      (file) => new JSONFileGuideSource(file, config.sources.jsonPriority)
+    ),
+  ];
+
+  const supplemental = config.sources.supplementalXmltv;
+  if (supplemental) {
+    sources.push(
+      new XMLTVGuideSource(supplemental.location, {
+        priority: supplemental.priority,
+        channelMapFile: supplemental.channelMapFile,
+        fillGaps: true,
+      })
+    );
+  }
+
+  return sources;
+}
+
+/**
+ * Fetch every source and combine the results
+ * Optional sources that fail are logged and skipped; a failing required
+ * source fails the whole fetch
+ */
+export async function fetchGuideSources(sources: GuideSource[]): Promise<GuideData> {
+  const results: SourceResult[] = [];
+
+  for (const source of sources) {
+    try {
+      results.push({ source, data: await source.fetch() });
+    } catch (error) {
+      if (source.required) {
+        throw error;
+      }
+      console.warn(`Guide source ${source.name} failed, skipping: ${error}`);
+    }
+  }
+
+  return combineGuideData(results);
+}
+
+/**
+ * Merge source results by priority
+ * For each GuideNumber the highest-priority source that has programmes for
+ * the channel supplies its listings; lineup entries are taken the same way.
+ * Ties keep the source listed first. Sources with fillGaps only ever add to
+ * channels another source knows about: they fill channels that have no
+ * programmes and add programmes wherever they do not overlap an existing
+ * listing, but never add channels or lineup entries of their own.
+ */
+export function combineGuideData(results: SourceResult[]): GuideData {
+  const ordered = results
+    .map((result, index) => ({ ...result, index }))
+    // Gap fillers go last whatever their priority, so they never replace listings
+    .sort(
+      (a, b) =>
+        Number(a.source.fillGaps ?? false) - Number(b.source.fillGaps ?? false) ||
+        b.source.priority - a.source.priority ||
+        a.index - b.index
+    );
+
+  const lineup = new Map<string, ChannelLineupItem>();
+  const guide = new Map<string, ChannelGuide>();
+
+  const known = new Set<string>();
+  for (const { source, data } of results) {
+    if (!source.fillGaps) {
+      data.lineup.forEach((item) => known.add(item.GuideNumber));
+      data.guide.forEach((channel) => known.add(channel.GuideNumber));
+    }
+  }
+
+  for (const { source, data } of ordered) {
+    if (!source.fillGaps) {
+      for (const item of data.lineup) {
+        if (!lineup.has(item.GuideNumber)) {
+          lineup.set(item.GuideNumber, item);
+        }
+      }
+    }
+
+    let contributed = 0;
+    let filled = 0;
+    let ignored = 0;
+    for (const channel of data.guide) {
+      if (source.fillGaps && !known.has(channel.GuideNumber)) {
+        ignored++;
+        continue;
+      }
+
+      const existing = guide.get(channel.GuideNumber);
+      if (!existing || (existing.Guide.length === 0 && channel.Guide.length > 0)) {
+        guide.set(channel.GuideNumber, channel);
+        contributed++;
+      } else if (source.fillGaps) {
+        const additions = findGapProgrammes(existing.Guide, channel.Guide);
+        if (additions.length > 0) {
+          guide.set(channel.GuideNumber, {
+            ...existing,
+            Guide: [...existing.Guide, ...additions].sort((a, b) => a.StartTime - b.StartTime),
+          });
+          filled += additions.length;
+        }
+      }
+    }
+
+    if (results.length > 1) {
+      const fillNote = source.fillGaps
+        ? `, filled ${filled} programmes into gaps, ignored ${ignored} unknown channels`
+        : '';
+      console.log(
+        `Guide source ${source.name} (priority ${source.priority}) supplied ${contributed} channels${fillNote}`
+      );
+    }
+  }
+
+  return { lineup: [...lineup.values()], guide: [...guide.values()] };
+}
+
+/**
+ * Incoming programmes that do not overlap any existing programme
+ */
+function findGapProgrammes(
+  existing: ProgrammeGuide[],
+  incoming: ProgrammeGuide[]
+): ProgrammeGuide[] {
+  return incoming.filter(
+    (candidate) =>
+      !existing.some(
+        (programme) =>
+          candidate.StartTime < programme.EndTime && candidate.EndTime > programme.StartTime
+      )
+  );
+}
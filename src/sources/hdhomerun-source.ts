@@ -0,0 +1,73 @@
+/**
+ * HDHomeRun Guide Source
+ * Listings from the HDHomeRun cloud guide for every configured or discovered device
+ */
+
+import { fetchAllDevices, getClientOptions, resolveDeviceHosts } from '../api/multi-device';
+import { HDHomeRunDiscovery } from '../api/udp-discovery';
+import { GuideCache } from '../api/guide-cache';
+import type { DeviceStatus } from '../api/multi-device';
+import type { AppConfig } from '../types/config';
+import type { GuideData, GuideSource } from '../types/guide-source';
+
+export class HDHomeRunGuideSource implements GuideSource {
+  readonly name = 'hdhomerun';
+  readonly priority: number;
+  readonly required = true;
+  private config: AppConfig;
+  private discovery: HDHomeRunDiscovery;
+  private guideCache: GuideCache;
+  private lastHosts: string[] = [];
+  private lastDeviceStatus: DeviceStatus[] = [];
+
+  constructor(config: AppConfig, discovery: HDHomeRunDiscovery, guideCache: GuideCache) {
+    this.config = config;
+    this.discovery = discovery;
+    this.guideCache = guideCache;
+    this.priority = config.sources.hdhomerunPriority;
+  }
+
+  /**
+   * Fetch DeviceAuth, lineup and EPG data from every device and merge them
+   */
+  async fetch(): Promise<GuideData> {
+    // Rescan on every update when relying on discovery - device IPs can change
+    const hosts = await resolveDeviceHosts(this.config, this.discovery, true);
+    this.lastHosts = hosts;
+    await this.guideCache.saveHosts(hosts);
+    console.log(`Fetching guide data from ${hosts.length} HDHomeRun device(s)...`);
+
+    const { lineup, guide, devices } = await fetchAllDevices(hosts, {
+      days: this.config.hdhomerun.days,
+      hoursIncrement: this.config.hdhomerun.hoursIncrement,
+      duplicatePolicy: this.config.hdhomerun.duplicatePolicy,
+      client: getClientOptions(this.config),
+      cache: this.guideCache,
+      // Fixture windows are keyed by timestamp, so record/replay always fetch everything
+      incremental: this.config.cache.incremental && this.config.fixtures.mode === 'live',
+      nearTermHours: this.config.cache.nearTermHours,
+    });
+    this.lastDeviceStatus = devices;
+
+    return { lineup, guide };
+  }
+
+  /**
+   * Hosts used by the most recent fetch (falls back to configured hosts)
+   */
+  getLastHosts(): string[] {
+    return this.lastHosts.length > 0 ? this.lastHosts : this.config.hdhomerun.hosts;
+  }
+
+  getDeviceStatus(): DeviceStatus[] {
+    return this.lastDeviceStatus;
+  }
+
+  /**
+   * discover.json URL of the primary device, used as generator-info-url
+   */
+  getDeviceUrl(): string {
+    const host = this.getLastHosts()[0] || 'hdhomerun.local';
+    return `http://${host}/discover.json`;
+  }
+}
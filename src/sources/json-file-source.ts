@@ -0,0 +1,48 @@
+/**
+ * JSON File Guide Source
+ * Listings from a local JSON file in the normalized guide format: either an
+ * EPGResponse array or an object with `lineup` and `guide` properties
+ */
+
+import { promises as fs } from 'fs';
+import type { EPGResponse } from '../types/hdhomerun';
+import type { GuideData, GuideSource } from '../types/guide-source';
+
+export class JSONFileGuideSource implements GuideSource {
+  readonly name: string;
+  readonly priority: number;
+  readonly required = false;
+  private readonly filePath: string;
+
+  constructor(filePath: string, priority: number) {
+    this.filePath = filePath;
+    this.priority = priority;
+    this.name = `json:${filePath}`;
+  }
+
+  async fetch(): Promise<GuideData> {
+    const content = await fs.readFile(this.filePath, 'utf-8');
+    const parsed = JSON.parse(content) as EPGResponse | Partial<GuideData>;
+
+    const guide = Array.isArray(parsed) ? parsed : parsed.guide || [];
+    if (!Array.isArray(guide)) {
+      throw new Error(`Invalid guide JSON in ${this.filePath}: expected an array of channels`);
+    }
+
+    const lineup =
+      !Array.isArray(parsed) && parsed.lineup
+        ? parsed.lineup
+        : guide.map((channel) => ({
+            GuideNumber: channel.GuideNumber,
+            GuideName: channel.GuideName,
+          }));
+
+    // Normalize ordering so the generator always sees programmes by StartTime
+    for (const channel of guide) {
+      channel.Guide = (channel.Guide || []).sort((a, b) => a.StartTime - b.StartTime);
+    }
+
+    console.log(`Loaded ${guide.length} channels from JSON file ${this.filePath}`);
+    return { lineup, guide };
+  }
+}
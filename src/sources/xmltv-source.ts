@@ -0,0 +1,320 @@
+/**
+ * XMLTV Guide Source
+ * Listings from an XMLTV file or URL, e.g. for low-power stations that only
+ * publish their schedule as XMLTV. Plain and gzip-compressed documents are
+ * accepted, and an optional channel map translates the document's channel
+ * ids into our GuideNumbers.
+ */
+
+import { promises as fs } from 'fs';
+import { gunzipSync } from 'zlib';
+import axios from 'axios';
+import { XMLParser } from 'fast-xml-parser';
+import { parseXMLTVTimestamp } from '../utils/time';
+import { parseEpisodeNumber } from '../utils/text-sanitizer';
+import type { ChannelGuide, ProgrammeGuide } from '../types/hdhomerun';
+import type { GuideData, GuideSource } from '../types/guide-source';
+
+type XMLText = string | { '#text'?: string; '@_lang'?: string; '@_system'?: string };
+
+interface ParsedChannel {
+  '@_id': string;
+  'display-name'?: XMLText[];
+  icon?: Array<{ '@_src'?: string }>;
+}
+
+interface ParsedProgramme {
+  '@_channel': string;
+  '@_start': string;
+  '@_stop'?: string;
+  title?: XMLText[];
+  'sub-title'?: XMLText[];
+  desc?: XMLText[];
+  category?: XMLText[];
+  'episode-num'?: XMLText[];
+  icon?: Array<{ '@_src'?: string }>;
+  'previously-shown'?: Array<{ '@_start'?: string } | string>;
+}
+
+const ARRAY_ELEMENTS = new Set([
+  'channel',
+  'programme',
+  'display-name',
+  'title',
+  'sub-title',
+  'desc',
+  'category',
+  'episode-num',
+  'icon',
+  'previously-shown',
+]);
+
+export interface XMLTVSourceOptions {
+  priority: number;
+  // JSON file mapping XMLTV channel ids to GuideNumbers; unmapped channels are dropped
+  channelMapFile?: string;
+  fillGaps?: boolean;
+}
+
+export class XMLTVGuideSource implements GuideSource {
+  readonly name: string;
+  readonly priority: number;
+  readonly required = false;
+  readonly fillGaps: boolean;
+  private readonly location: string;
+  private readonly channelMapFile?: string;
+
+  constructor(location: string, options: XMLTVSourceOptions) {
+    this.location = location;
+    this.priority = options.priority;
+    this.channelMapFile = options.channelMapFile;
+    this.fillGaps = options.fillGaps ?? false;
+    this.name = `xmltv:${location}`;
+  }
+
+  async fetch(): Promise<GuideData> {
+    const content = await this.readDocument();
+    let data = parseXMLTVGuide(content);
+
+    if (this.channelMapFile) {
+      data = applyChannelMap(data, await loadChannelMap(this.channelMapFile));
+    }
+
+    console.log(`Loaded ${data.guide.length} channels from XMLTV source ${this.location}`);
+    return data;
+  }
+
+  /**
+   * Read the document from disk or over HTTP(S), decompressing gzip content
+   */
+  private async readDocument(): Promise<string> {
+    let buffer: Buffer;
+
+    if (/^https?:\/\//i.test(this.location)) {
+      const response = await axios.get<ArrayBuffer>(this.location, {
+        responseType: 'arraybuffer',
+        timeout: 30000,
+      });
+      buffer = Buffer.from(response.data);
+    } else {
+      buffer = await fs.readFile(this.location);
+    }
+
+    // gzip magic number - common for published .xml.gz guides
+    if (buffer[0] === 0x1f && buffer[1] === 0x8b) {
+      buffer = gunzipSync(buffer);
+    }
+
+    return buffer.toString('utf-8');
+  }
+}
+
+/**
+ * Load a channel map: a JSON object of { "<xmltv channel id>": "<GuideNumber>" }
+ */
+async function loadChannelMap(filePath: string): Promise<Map<string, string>> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  const parsed = JSON.parse(content) as Record<string, unknown>;
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Invalid channel map ${filePath}: expected an object of id -> GuideNumber`);
+  }
+
+  const map = new Map<string, string>();
+  for (const [id, guideNumber] of Object.entries(parsed)) {
+    if (typeof guideNumber === 'string' || typeof guideNumber === 'number') {
+      map.set(id, String(guideNumber));
+    }
+  }
+  return map;
+}
+
+/**
+ * Rename channels to their mapped GuideNumbers, dropping unmapped channels
+ */
+function applyChannelMap(data: GuideData, channelMap: Map<string, string>): GuideData {
+  const guide: ChannelGuide[] = [];
+  let unmapped = 0;
+
+  for (const channel of data.guide) {
+    const guideNumber = channelMap.get(channel.GuideNumber);
+    if (guideNumber === undefined) {
+      unmapped++;
+      continue;
+    }
+    guide.push({ ...channel, GuideNumber: guideNumber });
+  }
+
+  if (unmapped > 0) {
+    console.log(`Ignored ${unmapped} XMLTV channels not listed in the channel map`);
+  }
+
+  return {
+    lineup: guide.map((channel) => ({
+      GuideNumber: channel.GuideNumber,
+      GuideName: channel.GuideName,
+    })),
+    guide,
+  };
+}
+
+/**
+ * Convert an XMLTV document into normalized guide data
+ * Channel ids become GuideNumbers; programmes without a parseable start are skipped
+ */
+export function parseXMLTVGuide(xml: string): GuideData {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    textNodeName: '#text',
+    parseTagValue: false,
+    parseAttributeValue: false,
+    isArray: (name) => ARRAY_ELEMENTS.has(name),
+  });
+
+  const parsed = parser.parse(xml) as {
+    tv?: { channel?: ParsedChannel[]; programme?: ParsedProgramme[] };
+  };
+
+  if (!parsed.tv) {
+    throw new Error('Missing <tv> root element');
+  }
+
+  const channels = new Map<string, ChannelGuide>();
+
+  for (const channel of parsed.tv.channel || []) {
+    const id = channel['@_id'];
+    if (!id) {
+      continue;
+    }
+
+    channels.set(id, {
+      GuideNumber: id,
+      GuideName: textOf(channel['display-name']?.[0]) || id,
+      ImageURL: channel.icon?.[0]?.['@_src'],
+      Guide: [],
+    });
+  }
+
+  for (const programme of parsed.tv.programme || []) {
+    const channelId = programme['@_channel'];
+    const start = parseXMLTVTimestamp(programme['@_start'] || '');
+    if (!channelId || start === null) {
+      continue;
+    }
+
+    let channel = channels.get(channelId);
+    if (!channel) {
+      // Programme for a channel without a <channel> definition
+      channel = { GuideNumber: channelId, GuideName: channelId, Guide: [] };
+      channels.set(channelId, channel);
+    }
+
+    channel.Guide.push(toProgrammeGuide(programme, start));
+  }
+
+  // Programmes without a stop time end when the next one on the channel starts
+  for (const channel of channels.values()) {
+    channel.Guide.sort((a, b) => a.StartTime - b.StartTime);
+    channel.Guide.forEach((programme, i) => {
+      if (programme.EndTime === 0) {
+        programme.EndTime = channel.Guide[i + 1]?.StartTime ?? programme.StartTime + 3600;
+      }
+    });
+  }
+
+  const guide = [...channels.values()];
+  return {
+    lineup: guide.map((channel) => ({
+      GuideNumber: channel.GuideNumber,
+      GuideName: channel.GuideName,
+    })),
+    guide,
+  };
+}
+
+function toProgrammeGuide(programme: ParsedProgramme, start: number): ProgrammeGuide {
+  const result: ProgrammeGuide = {
+    StartTime: start,
+    EndTime: parseXMLTVTimestamp(programme['@_stop'] || '') ?? 0,
+    Title: textOf(programme.title?.[0]),
+  };
+
+  const synopsis = textOf(programme.desc?.[0]);
+  if (synopsis) {
+    result.Synopsis = synopsis;
+  }
+
+  const episodeTitle = textOf(programme['sub-title']?.[0]);
+  if (episodeTitle) {
+    result.EpisodeTitle = episodeTitle;
+  }
+
+  const episodeNumber = parseEpisodeNum(programme['episode-num'] || []);
+  if (episodeNumber) {
+    result.EpisodeNumber = episodeNumber;
+  }
+
+  // Gracenote ids round-trip as "EP01234567.0005" / series-id
+  for (const node of programme['episode-num'] || []) {
+    const system = typeof node === 'object' ? node['@_system'] : undefined;
+    if (system === 'dd_progid') {
+      result.ProgramID = textOf(node).replace('.', '');
+    } else if (system === 'series-id') {
+      result.SeriesID = textOf(node);
+    }
+  }
+
+  const categories = (programme.category || []).map(textOf).filter(Boolean);
+  if (categories.length > 0) {
+    result.Filter = categories;
+  }
+
+  const image = programme.icon?.[0]?.['@_src'];
+  if (image) {
+    result.ImageURL = image;
+  }
+
+  const previouslyShown = programme['previously-shown']?.[0];
+  if (previouslyShown && typeof previouslyShown === 'object' && previouslyShown['@_start']) {
+    result.OriginalAirdate = parseXMLTVTimestamp(previouslyShown['@_start']) ?? undefined;
+  }
+
+  return result;
+}
+
+/**
+ * Convert xmltv_ns (0-based "season.episode.part") or onscreen numbering to "S01E05" or "E05"
+ */
+function parseEpisodeNum(nodes: XMLText[]): string | undefined {
+  for (const node of nodes) {
+    const system = typeof node === 'object' ? node['@_system'] : undefined;
+    const value = textOf(node);
+
+    if (system === 'xmltv_ns') {
+      const match = value.match(/^\s*(\d*)\s*(?:\/\s*\d+)?\s*\.\s*(\d+)/);
+      if (match) {
+        const episode = String(parseInt(match[2], 10) + 1).padStart(2, '0');
+        if (!match[1]) {
+          return `E${episode}`;
+        }
+        const season = String(parseInt(match[1], 10) + 1).padStart(2, '0');
+        return `S${season}E${episode}`;
+      }
+    } else if (parseEpisodeNumber(value)) {
+      return value.toUpperCase();
+    }
+  }
+
+  return undefined;
+}
+
+function textOf(node: XMLText | undefined): string {
+  if (node === undefined || node === null) {
+    return '';
+  }
+  if (typeof node === 'string') {
+    return node.trim();
+  }
+  return (node['#text'] || '').trim();
+}
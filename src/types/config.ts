@@ -2,11 +2,143 @@
  * Application configuration types
  */
 
+import path from 'path';
+import { assertTimeZone } from '../utils/time';
+
+/**
+ * How to resolve a GuideNumber that is reported by more than one device
+ * - prefer-first: keep the channel from the first host listed in HDHOMERUN_HOST
+ * - namespace: keep every device's copy, suffixing channel ids with @DeviceID
+ */
+export type DuplicateChannelPolicy = 'prefer-first' | 'namespace';
+
+/**
+ * Fixture handling for device and guide API responses
+ * - live: normal operation
+ * - record: save every raw response to the fixtures directory
+ * - replay: serve responses from the fixtures directory without network access
+ */
+export type FixtureMode = 'live' | 'record' | 'replay';
+
+/**
+ * Parental-control output mode
+ * Programmes rated above maxRating (a VCHIP or MPAA rating) are dropped, or
+ * masked: kept in their time slot with a neutral title and no description
+ */
+export interface ParentalConfig {
+  maxRating?: string;
+  mode: 'drop' | 'mask';
+  maskTitle: string;
+  blockUnrated: boolean;
+}
+
+/**
+ * How overlapping programmes on a channel's timeline are repaired
+ * - none: leave overlaps as listed (default)
+ * - trim: end the earlier programme where the next one starts
+ * - drop: keep the earlier programme and drop the one overlapping it
+ */
+export type OverlapPolicy = 'none' | 'trim' | 'drop';
+
+/**
+ * Which lineup channels appear in the guide
+ * include/exclude entries are GuideNumbers or ranges ("7.1", "5-9", "5.1-5.4");
+ * includeName/excludeName are case-insensitive regular expressions
+ */
+export interface ChannelFilterConfig {
+  favoritesOnly: boolean;
+  excludeDRM: boolean;
+  hdOnly: boolean;
+  include: string[];
+  exclude: string[];
+  includeName?: string;
+  excludeName?: string;
+}
+
+/**
+ * Language codes for the lang attribute of guide text
+ * channels maps GuideNumbers to a language overriding the default and detection
+ */
+export interface LanguageConfig {
+  default: string;
+  channels: Record<string, string>;
+  detect: boolean;
+}
+
+/**
+ * Display-name variants written for each channel, in order
+ * - name: "KSTP", number: "5.1", number-name: "5.1 KSTP", affiliate: "ABC"
+ */
+export type DisplayNameVariant = 'name' | 'number' | 'number-name' | 'affiliate';
+
 export interface AppConfig {
   hdhomerun: {
-    host: string;
+    hosts: string[];
+    duplicatePolicy: DuplicateChannelPolicy;
     days: number;
     hoursIncrement: number;
+    guideApiUrl: string;
+    guideConcurrency: number;
+    guideRequestsPerSecond: number;
+    guideChunkRetries: number;
+    deviceAuthMaxAgeMinutes: number;
+    maxReauthAttempts: number;
+  };
+  sources: {
+    hdhomerunPriority: number;
+    xmltvFiles: string[];
+    xmltvPriority: number;
+    jsonFiles: string[];
+    jsonPriority: number;
+    supplementalXmltv?: {
+      location: string;
+      channelMapFile?: string;
+      priority: number;
+    };
+  };
+  channels: ChannelFilterConfig;
+  channelMapFile?: string;
+  channelMetadata: {
+    displayNames: DisplayNameVariant[];
+    lcn: boolean;
+    url: boolean;
+  };
+  language: LanguageConfig;
+  categories: {
+    normalize: boolean;
+    rulesFile?: string;
+    sports: boolean; // Parse teams and leagues out of sports listings
+  };
+  featureTags: Record<string, string>; // Synopsis tag -> feature overrides (FEATURE_TAGS)
+  rewrite: {
+    rulesFile?: string;
+    dryRun: boolean; // Report which rules would fire without changing the guide
+  };
+  parental: ParentalConfig;
+  timeline: {
+    overlapPolicy: OverlapPolicy;
+    fillGaps: boolean; // Fill holes between listings with placeholder blocks
+    fillTail: boolean; // Fill from each channel's last listing to the end of the guide window
+    minGapMinutes: number; // Shorter holes are left alone
+  };
+  playlist: {
+    groupTitle: string;
+  };
+  fixtures: {
+    mode: FixtureMode;
+    directory: string;
+  };
+  cache: {
+    directory: string;
+    incremental: boolean;
+    nearTermHours: number;
+  };
+  degraded: {
+    dummyThresholdHours: number;
+  };
+  discovery: {
+    timeoutMs: number;
+    broadcastAddress: string;
   };
   server: {
     port: number;
@@ -18,6 +150,8 @@ export interface AppConfig {
   output: {
     directory: string;
     filename: string;
+    // Zone for XMLTV timestamps: the configured timezone, or UTC when requested
+    timeZone: string;
   };
   dummyProgramming?: {
     enabled: boolean;
@@ -28,11 +162,90 @@ export interface AppConfig {
 }
 
 export function getConfig(): AppConfig {
+  const outputDirectory = process.env.OUTPUT_DIR || './output';
+  const timezone = process.env.TZ || 'America/Chicago';
   const config: AppConfig = {
     hdhomerun: {
-      host: process.env.HDHOMERUN_HOST || 'hdhomerun.local',
+      // Empty list means hosts are found via UDP discovery
+      hosts: parseList(process.env.HDHOMERUN_HOST || ''),
+      duplicatePolicy: process.env.DUPLICATE_CHANNELS === 'namespace' ? 'namespace' : 'prefer-first',
       days: parseInt(process.env.DAYS || '7', 10),
       hoursIncrement: parseInt(process.env.HOURS_INCREMENT || '3', 10),
+      guideApiUrl: process.env.GUIDE_API_URL || 'https://api.hdhomerun.com/api/guide',
+      guideConcurrency: parseInt(process.env.GUIDE_CONCURRENCY || '4', 10),
+      guideRequestsPerSecond: parseFloat(process.env.GUIDE_REQUESTS_PER_SECOND || '2'),
+      guideChunkRetries: parseInt(process.env.GUIDE_CHUNK_RETRIES || '2', 10),
+      deviceAuthMaxAgeMinutes: parseInt(process.env.DEVICE_AUTH_MAX_AGE_MINUTES || '360', 10),
+      maxReauthAttempts: parseInt(process.env.DEVICE_AUTH_MAX_REFRESHES || '3', 10),
+    },
+    sources: {
+      hdhomerunPriority: parseInt(process.env.HDHOMERUN_SOURCE_PRIORITY || '100', 10),
+      xmltvFiles: parseList(process.env.XMLTV_SOURCE_FILES || ''),
+      xmltvPriority: parseInt(process.env.XMLTV_SOURCE_PRIORITY || '50', 10),
+      jsonFiles: parseList(process.env.JSON_SOURCE_FILES || ''),
+      jsonPriority: parseInt(process.env.JSON_SOURCE_PRIORITY || '50', 10),
+    },
+    channels: {
+      favoritesOnly: process.env.CHANNEL_FAVORITES_ONLY === 'true',
+      excludeDRM: process.env.CHANNEL_EXCLUDE_DRM === 'true',
+      hdOnly: process.env.CHANNEL_HD_ONLY === 'true',
+      include: parseList(process.env.CHANNEL_INCLUDE || ''),
+      exclude: parseList(process.env.CHANNEL_EXCLUDE || ''),
+      includeName: process.env.CHANNEL_INCLUDE_NAME || undefined,
+      excludeName: process.env.CHANNEL_EXCLUDE_NAME || undefined,
+    },
+    channelMapFile: process.env.CHANNEL_MAP_FILE || undefined,
+    channelMetadata: {
+      displayNames: parseDisplayNameVariants(process.env.CHANNEL_DISPLAY_NAMES || 'name'),
+      lcn: process.env.CHANNEL_LCN === 'true',
+      url: process.env.CHANNEL_URL === 'true',
+    },
+    language: {
+      default: process.env.GUIDE_LANGUAGE || 'en',
+      channels: parseKeyValueList(process.env.CHANNEL_LANGUAGES || ''),
+      detect: process.env.LANGUAGE_DETECTION === 'true',
+    },
+    categories: {
+      normalize: process.env.CATEGORY_NORMALIZATION === 'true',
+      rulesFile: process.env.CATEGORY_RULES_FILE || undefined,
+      sports: process.env.SPORTS_PARSING === 'true',
+    },
+    featureTags: parseKeyValueList(process.env.FEATURE_TAGS || ''),
+    rewrite: {
+      rulesFile: process.env.REWRITE_RULES_FILE || undefined,
+      dryRun: process.env.REWRITE_DRY_RUN === 'true',
+    },
+    parental: {
+      maxRating: process.env.PARENTAL_MAX_RATING || undefined,
+      mode: process.env.PARENTAL_MODE === 'drop' ? 'drop' : 'mask',
+      maskTitle: process.env.PARENTAL_MASK_TITLE || 'Restricted',
+      blockUnrated: process.env.PARENTAL_BLOCK_UNRATED === 'true',
+    },
+    timeline: {
+      overlapPolicy: parseOverlapPolicy(process.env.TIMELINE_OVERLAP_POLICY),
+      fillGaps: process.env.TIMELINE_FILL_GAPS === 'true',
+      fillTail: process.env.TIMELINE_FILL_TAIL === 'true',
+      minGapMinutes: parseFloat(process.env.TIMELINE_MIN_GAP_MINUTES || '5'),
+    },
+    playlist: {
+      groupTitle: process.env.M3U_GROUP_TITLE || 'HDHomeRun',
+    },
+    fixtures: {
+      mode: parseFixtureMode(process.env.FIXTURE_MODE),
+      directory: process.env.FIXTURES_DIR || './fixtures',
+    },
+    cache: {
+      directory: process.env.CACHE_DIR || path.join(outputDirectory, 'cache'),
+      incremental: process.env.INCREMENTAL_REFRESH === 'true',
+      nearTermHours: parseInt(process.env.INCREMENTAL_NEAR_TERM_HOURS || '24', 10),
+    },
+    degraded: {
+      // 0 disables topping up a stale guide with dummy programming
+      dummyThresholdHours: parseFloat(process.env.DEGRADED_DUMMY_THRESHOLD_HOURS || '0'),
+    },
+    discovery: {
+      timeoutMs: parseInt(process.env.DISCOVERY_TIMEOUT_MS || '3000', 10),
+      broadcastAddress: process.env.DISCOVERY_BROADCAST_ADDRESS || '255.255.255.255',
     },
     server: {
       port: parseInt(process.env.WEB_PORT || '8083', 10),
@@ -42,12 +255,22 @@ export function getConfig(): AppConfig {
       runOnStart: process.env.RUN_ON_START === 'true',
     },
     output: {
-      directory: process.env.OUTPUT_DIR || './output',
+      directory: outputDirectory,
       filename: process.env.EPG_FILENAME || 'epg.xml',
+      timeZone: process.env.XMLTV_UTC_TIMESTAMPS === 'true' ? 'UTC' : timezone,
     },
-    timezone: process.env.TZ || 'America/Chicago',
+    timezone,
   };
 
+  // Supplemental XMLTV file or URL for channels the HDHomeRun guide misses
+  if (process.env.SUPPLEMENTAL_XMLTV) {
+    config.sources.supplementalXmltv = {
+      location: process.env.SUPPLEMENTAL_XMLTV,
+      channelMapFile: process.env.SUPPLEMENTAL_XMLTV_CHANNEL_MAP || undefined,
+      priority: parseInt(process.env.SUPPLEMENTAL_XMLTV_PRIORITY || '10', 10),
+    };
+  }
+
   // Dummy programming configuration
   const dummyEnabled = process.env.ENABLE_DUMMY_PROGRAMMING === 'true';
   if (dummyEnabled) {
@@ -58,5 +281,58 @@ export function getConfig(): AppConfig {
     };
   }
 
+  assertTimeZone(config.timezone);
+
   return config;
 }
+
+/**
+ * Split a comma-separated environment value into trimmed, non-empty entries
+ */
+function parseList(value: string): string[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
+/**
+ * Parse "key=value,key=value" into an object, skipping malformed entries
+ */
+function parseKeyValueList(value: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const entry of parseList(value)) {
+    const [key, ...rest] = entry.split('=');
+    const mapped = rest.join('=').trim();
+    if (key.trim() && mapped) {
+      result[key.trim()] = mapped;
+    }
+  }
+  return result;
+}
+
+function parseFixtureMode(value: string | undefined): FixtureMode {
+  if (value === 'record' || value === 'replay') {
+    return value;
+  }
+  return 'live';
+}
+
+function parseOverlapPolicy(value: string | undefined): OverlapPolicy {
+  if (value === 'trim' || value === 'drop') {
+    return value;
+  }
+  return 'none';
+}
+
+function parseDisplayNameVariants(value: string): DisplayNameVariant[] {
+  const variants: DisplayNameVariant[] = [];
+  for (const entry of parseList(value)) {
+    if (entry === 'name' || entry === 'number' || entry === 'number-name' || entry === 'affiliate') {
+      variants.push(entry);
+    } else {
+      console.warn(`Ignoring unknown CHANNEL_DISPLAY_NAMES entry "${entry}"`);
+    }
+  }
+  return variants;
+}
@@ -0,0 +1,24 @@
+/**
+ * Guide Source Types
+ * Every source of listings produces the same normalized GuideData, which is
+ * what XMLTVGenerator consumes. Channels and programmes use the HDHomeRun
+ * guide shape (ChannelGuide/ProgrammeGuide) as the internal model.
+ */
+
+import type { ChannelLineupItem, EPGResponse } from './hdhomerun';
+
+export interface GuideData {
+  lineup: ChannelLineupItem[];
+  guide: EPGResponse;
+}
+
+export interface GuideSource {
+  readonly name: string;
+  // Higher priority wins when several sources provide the same channel
+  readonly priority: number;
+  // A failing required source fails the update; optional sources are skipped
+  readonly required: boolean;
+  // Only fill gaps in channels another source supplied; never adds channels
+  readonly fillGaps?: boolean;
+  fetch(): Promise<GuideData>;
+}
@@ -15,6 +15,12 @@ export interface ChannelLineupItem {
   GuideNumber: string;
   GuideName: string;
   URL?: string;
+  Favorite?: number; // 1 when marked as a favorite on the device
+  DRM?: number; // 1 for copy-protected channels
+  HD?: number; // 1 for HD channels
+  VideoCodec?: string;
+  AudioCodec?: string;
+  DeviceID?: string; // Set when merging lineups from multiple devices
   [key: string]: unknown;
 }
 
@@ -23,7 +29,7 @@ export interface ProgrammeGuide {
   EndTime: number; // Unix timestamp
   Title: string;
   Synopsis?: string;
-  EpisodeNumber?: string; // Format: "S01E05"
+  EpisodeNumber?: string; // Usually "S01E05"; also "E05" or an airdate like "2025-09-15"
   EpisodeTitle?: string;
   OriginalAirdate?: number; // Unix timestamp
   ImageURL?: string;
@@ -36,6 +42,7 @@ export interface ChannelGuide {
   GuideName: string;
   Affiliate?: string;
   ImageURL?: string;
+  DeviceID?: string; // Set when merging guides from multiple devices
   Guide: ProgrammeGuide[];
   [key: string]: unknown;
 }
@@ -0,0 +1,21 @@
+import { isNewEpisode } from '../text-sanitizer';
+
+// 2025-09-15, as HDHomeRun sends airdates: midnight UTC
+const AIRDATE = 1757894400;
+// 2025-09-15 20:00 CDT, already 2025-09-16 01:00 in UTC
+const EVENING_CDT = 1757984400;
+
+describe('isNewEpisode', () => {
+  it('treats an evening airing on its air date as new in the local zone', () => {
+    expect(isNewEpisode(AIRDATE, EVENING_CDT, 'America/Chicago')).toBe(true);
+  });
+
+  it('would call the same airing a repeat if judged in UTC', () => {
+    expect(isNewEpisode(AIRDATE, EVENING_CDT, 'UTC')).toBe(false);
+  });
+
+  it('treats a later day as a repeat and no airdate as unknown', () => {
+    expect(isNewEpisode(AIRDATE, EVENING_CDT + 86400, 'America/Chicago')).toBe(false);
+    expect(isNewEpisode(undefined, EVENING_CDT, 'America/Chicago')).toBe(false);
+  });
+});
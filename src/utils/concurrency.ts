@@ -0,0 +1,73 @@
+/**
+ * Concurrency Utilities
+ * Bounded parallelism and request pacing for API calls
+ */
+
+/**
+ * Spaces calls evenly so no more than requestsPerSecond start in any second
+ * A rate of 0 or less disables limiting
+ */
+export class RateLimiter {
+  private readonly intervalMs: number;
+  private nextSlot = 0;
+
+  constructor(requestsPerSecond: number) {
+    this.intervalMs = requestsPerSecond > 0 ? 1000 / requestsPerSecond : 0;
+  }
+
+  /**
+   * Resolve once the caller may issue its request
+   */
+  async acquire(): Promise<void> {
+    if (this.intervalMs === 0) {
+      return;
+    }
+
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + this.intervalMs;
+
+    if (slot > now) {
+      await sleep(slot - now);
+    }
+  }
+}
+
+/**
+ * Map items through an async function with at most `limit` calls in flight
+ * Results keep the input order. The first rejection stops new work from
+ * starting and is rethrown once in-flight calls settle.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  let failure: { error: unknown } | null = null;
+
+  const worker = async () => {
+    while (!failure && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failure = failure || { error };
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  if (failure) {
+    throw (failure as { error: unknown }).error;
+  }
+
+  return results;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -8,6 +8,8 @@
  * - Use whitelist approach instead of blacklist
  */
 
+import { formatXMLTVTimestamp } from './time';
+
 /**
  * Sanitize text for XML
  * - Remove control characters (except tab, newline, carriage return)
@@ -48,8 +50,8 @@ export function cleanDescription(text: string): string {
 
   let cleaned = sanitizeText(text);
 
-  // Remove feature tags: [S], [S,SL], [AD], [HD], etc.
-  cleaned = cleaned.replace(/\[[A-Z,]+\]/g, '');
+  // Remove feature tags: [S], [S,SL], [AD], [HD], [DD5.1], etc.
+  cleaned = cleaned.replace(/\[[A-Z][A-Z0-9., ]*\]/g, '');
 
   // Remove season/episode information embedded in descriptions
   // Patterns: "S1 Ep3", "Ep4", "S01E05", etc.
@@ -61,47 +63,110 @@ export function cleanDescription(text: string): string {
   return cleaned.trim();
 }
 
+export interface EpisodeInfo {
+  xmltvNs?: string; // "season.episode.part/total", 0-based; absent for date-based episodes
+  onscreen: string;
+  airDate?: string; // YYYY-MM-DD for date-based episodes (daily shows)
+}
+
 /**
- * Parse episode number from HDHomeRun format (e.g., "S01E05")
- * Returns xmltv_ns format: "season.episode.part"
- * xmltv_ns uses 0-based indexing
+ * Parse an HDHomeRun episode number
+ * Handles:
+ * - season/episode: "S01E05", "S1E5"
+ * - multi-episode: "S01E05E06", "S01E05-E06", "S01E05-06"
+ * - episode-only: "E05", "Ep 5", "Episode 5", "5"
+ * - date-based: "2025-09-15", "20250915"
+ * Parts ("Part 2 of 3", "Pt. 2") are taken from the episode title when given.
+ * Returns xmltv_ns format: "season.episode.part" (0-based indexing)
  */
-export function parseEpisodeNumber(episodeNumber: string): {
-  xmltvNs: string;
-  onscreen: string;
-} | null {
+export function parseEpisodeNumber(episodeNumber: string, episodeTitle?: string): EpisodeInfo | null {
   if (!episodeNumber) {
     return null;
   }
 
-  // Match patterns like "S01E05", "S1E5", etc.
-  const match = episodeNumber.match(/S(\d+)E(\d+)/i);
+  const value = episodeNumber.trim();
+  const part = parsePart(episodeTitle);
 
+  // Date-based episodes
+  const dateMatch = value.match(/^(\d{4})-?(\d{2})-?(\d{2})$/);
+  if (dateMatch) {
+    const airDate = `${dateMatch[1]}-${dateMatch[2]}-${dateMatch[3]}`;
+    return { onscreen: airDate, airDate };
+  }
+
+  // Season and episode, optionally with a second episode
+  const seasonMatch = value.match(/\bS(\d+)\s*E(\d+)(?:\s*-?\s*E?(\d+)\b)?/i);
+  if (seasonMatch) {
+    const season = parseInt(seasonMatch[1], 10);
+    const episode = parseInt(seasonMatch[2], 10);
+    const lastEpisode = seasonMatch[3] ? parseInt(seasonMatch[3], 10) : null;
+
+    const onscreen =
+      `S${pad(season)}E${pad(episode)}` + (lastEpisode !== null ? `-E${pad(lastEpisode)}` : '');
+    return {
+      xmltvNs: `${season - 1}.${episode - 1}.${formatPart(part)}`,
+      onscreen,
+    };
+  }
+
+  // Episode-only numbering
+  const episodeMatch = value.match(/^(?:E|Ep\.?|Episode)?\s*(\d+)$/i);
+  if (episodeMatch) {
+    const episode = parseInt(episodeMatch[1], 10);
+    if (episode < 1) {
+      return null;
+    }
+    return {
+      xmltvNs: `.${episode - 1}.${formatPart(part)}`,
+      onscreen: `E${pad(episode)}`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Part number and total from an episode title like "Finale (Part 2 of 3)"
+ */
+function parsePart(episodeTitle: string | undefined): { part: number; total?: number } | null {
+  const match = episodeTitle?.match(/\b(?:Part|Pt\.?)\s*(\d+)(?:\s*(?:of|\/)\s*(\d+))?/i);
   if (!match) {
     return null;
   }
+  return {
+    part: parseInt(match[1], 10),
+    total: match[2] ? parseInt(match[2], 10) : undefined,
+  };
+}
 
-  const season = parseInt(match[1], 10);
-  const episode = parseInt(match[2], 10);
-
-  // xmltv_ns uses 0-based indexing
-  const xmltvNs = `${season - 1}.${episode - 1}.0`;
-  const onscreen = episodeNumber.toUpperCase();
+function formatPart(part: { part: number; total?: number } | null): string {
+  if (!part || part.part < 1) {
+    return '0';
+  }
+  return part.total ? `${part.part - 1}/${part.total}` : `${part.part - 1}`;
+}
 
-  return { xmltvNs, onscreen };
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
 }
 
 /**
- * Check if an episode is "new" (aired yesterday or later)
- * Based on Python version's is_new_episode() function
+ * Check if an airing is "new": it airs on its original air date
+ * HDHomeRun airdates are dates (midnight UTC), so the airdate's UTC calendar
+ * day is compared with the airing's calendar day in the guide timezone. A
+ * repeat on any later day is not new.
  */
-export function isNewEpisode(originalAirdate: number | undefined): boolean {
+export function isNewEpisode(
+  originalAirdate: number | undefined,
+  startTime: number,
+  timeZone: string
+): boolean {
   if (!originalAirdate) {
     return false;
   }
 
-  const yesterdayMs = Date.now() - 86400000; // 24 hours in milliseconds
-  const airdateMs = originalAirdate * 1000; // Convert Unix timestamp to ms
+  const airDay = formatXMLTVTimestamp(originalAirdate, 'UTC').slice(0, 8);
+  const airingDay = formatXMLTVTimestamp(startTime, timeZone).slice(0, 8);
 
-  return airdateMs >= yesterdayMs;
+  return airDay >= airingDay;
 }
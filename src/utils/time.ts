@@ -0,0 +1,169 @@
+/**
+ * Time Utilities
+ * XMLTV timestamp handling in an explicit IANA timezone
+ *
+ * Everything here works on Unix timestamps (seconds) and takes the zone as a
+ * parameter, so output never depends on the process-local TZ.
+ */
+
+interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Throw if the timezone is not a known IANA zone
+ */
+export function assertTimeZone(timeZone: string): void {
+  try {
+    getFormatter(timeZone);
+  } catch {
+    throw new Error(
+      `Invalid timezone "${timeZone}": expected an IANA zone such as America/Chicago or UTC`
+    );
+  }
+}
+
+/**
+ * Format a Unix timestamp as an XMLTV timestamp (YYYYMMDDHHmmss +ZZZZ)
+ * using the wall-clock time and UTC offset of the given zone
+ */
+export function formatXMLTVTimestamp(unixTimestamp: number, timeZone: string): string {
+  const parts = getZonedParts(unixTimestamp, timeZone);
+  const offset = getTimeZoneOffset(unixTimestamp, timeZone);
+
+  const sign = offset >= 0 ? '+' : '-';
+  const offsetHours = pad(Math.floor(Math.abs(offset) / 60));
+  const offsetMinutes = pad(Math.abs(offset) % 60);
+
+  return (
+    `${parts.year}${pad(parts.month)}${pad(parts.day)}` +
+    `${pad(parts.hour)}${pad(parts.minute)}${pad(parts.second)} ${sign}${offsetHours}${offsetMinutes}`
+  );
+}
+
+/**
+ * UTC offset of the zone at the given instant, in minutes (e.g. -300 for CDT)
+ */
+export function getTimeZoneOffset(unixTimestamp: number, timeZone: string): number {
+  const parts = getZonedParts(unixTimestamp, timeZone);
+  const wallClockAsUtc =
+    Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) / 1000;
+  return Math.round((wallClockAsUtc - Math.floor(unixTimestamp)) / 60);
+}
+
+/**
+ * Unix timestamp of local midnight in the zone, `addDays` days after the day
+ * containing the given instant. DST days are 23 or 25 hours long.
+ */
+export function startOfDay(unixTimestamp: number, timeZone: string, addDays = 0): number {
+  const parts = getZonedParts(unixTimestamp, timeZone);
+  // Date.UTC normalizes day overflow across month and year boundaries
+  const date = new Date(Date.UTC(parts.year, parts.month - 1, parts.day + addDays));
+  return zonedTimeToUnix(
+    {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      hour: 0,
+      minute: 0,
+      second: 0,
+    },
+    timeZone
+  );
+}
+
+/**
+ * Convert a wall-clock time in the zone to a Unix timestamp
+ * Times skipped by a DST jump resolve to the instant after the jump
+ */
+function zonedTimeToUnix(parts: ZonedParts, timeZone: string): number {
+  const wallClockAsUtc =
+    Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) / 1000;
+  // Two passes settle on the offset in effect at the target instant
+  const first = wallClockAsUtc - getTimeZoneOffset(wallClockAsUtc, timeZone) * 60;
+  return wallClockAsUtc - getTimeZoneOffset(first, timeZone) * 60;
+}
+
+function getZonedParts(unixTimestamp: number, timeZone: string): ZonedParts {
+  const values: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(unixTimestamp * 1000))) {
+    if (part.type !== 'literal') {
+      values[part.type] = parseInt(part.value, 10);
+    }
+  }
+
+  return {
+    year: values.year,
+    month: values.month,
+    day: values.day,
+    hour: values.hour,
+    minute: values.minute,
+    second: values.second,
+  };
+}
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * Parse an XMLTV timestamp (YYYYMMDDHHmmss +ZZZZ) to a Unix timestamp
+ * Trailing fields may be omitted; a missing offset is treated as UTC
+ * Returns null when the value cannot be parsed
+ */
+export function parseXMLTVTimestamp(value: string): number | null {
+  const match = value
+    .trim()
+    .match(/^(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?\s*([+-]\d{2}:?\d{2}|Z)?$/);
+
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month = '01', day = '01', hours = '00', minutes = '00', seconds = '00', offset] =
+    match;
+
+  const utcMs = Date.UTC(
+    parseInt(year, 10),
+    parseInt(month, 10) - 1,
+    parseInt(day, 10),
+    parseInt(hours, 10),
+    parseInt(minutes, 10),
+    parseInt(seconds, 10)
+  );
+
+  let offsetMinutes = 0;
+  if (offset && offset !== 'Z') {
+    const digits = offset.replace(':', '');
+    const sign = digits.startsWith('-') ? -1 : 1;
+    offsetMinutes =
+      sign * (parseInt(digits.slice(1, 3), 10) * 60 + parseInt(digits.slice(3, 5), 10));
+  }
+
+  return Math.floor(utcMs / 1000) - offsetMinutes * 60;
+}
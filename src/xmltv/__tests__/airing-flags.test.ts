@@ -0,0 +1,42 @@
+import { detectAiringFlags } from '../airing-flags';
+import type { ProgrammeGuide } from '../../types/hdhomerun';
+
+function airing(fields: Partial<ProgrammeGuide>): ProgrammeGuide {
+  return { StartTime: 1757984400, EndTime: 1757988000, Title: 'Drama', ...fields };
+}
+
+describe('detectAiringFlags', () => {
+  it('reads premiere and finale markers at the start or end of the titles', () => {
+    expect(
+      detectAiringFlags(airing({ EpisodeTitle: 'Season Premiere: Homecoming' })).premiere
+    ).toBe('Season Premiere');
+    expect(
+      detectAiringFlags(airing({ EpisodeTitle: 'Homecoming (Series Finale)' })).lastChance
+    ).toBe('Series Finale');
+    expect(detectAiringFlags(airing({ Title: 'Premiere' })).premiere).toBe('Premiere');
+  });
+
+  it('ignores markers in running text and in the synopsis', () => {
+    const flags = detectAiringFlags(
+      airing({
+        EpisodeTitle: 'The Premiere Party Goes Wrong',
+        Synopsis: 'Season premiere. Jane attends a movie premiere before the season finale.',
+      })
+    );
+
+    expect(flags.premiere).toBeUndefined();
+    expect(flags.lastChance).toBeUndefined();
+  });
+
+  it('falls back to the guide fields', () => {
+    const flags = detectAiringFlags(airing({ Premiere: 1, LastChance: 1, First: 1 }));
+
+    expect(flags).toMatchObject({ first: true, premiere: 'Premiere', lastChance: 'Finale' });
+  });
+
+  it('detects live markers', () => {
+    expect(detectAiringFlags(airing({ Title: 'LIVE: Election Night' })).live).toBe(true);
+    expect(detectAiringFlags(airing({ Filter: ['Live'] })).live).toBe(true);
+    expect(detectAiringFlags(airing({ Title: 'Live and Let Die' })).live).toBe(false);
+  });
+});
@@ -0,0 +1,41 @@
+import { ChannelMap } from '../channel-map';
+
+describe('ChannelMap', () => {
+  const map = new ChannelMap(
+    new Map([
+      ['5.1', { id: 'KSTP.us', displayNames: ['KSTP'], sortOrder: 2 }],
+      ['11.1@1040ABCD', { id: 'KARE.tuner2', sortOrder: 1 }],
+    ])
+  );
+
+  it('matches namespaced GuideNumbers by their plain number', () => {
+    expect(map.getId('5.1@1040ABCD')).toBe('KSTP.us');
+    expect(map.resolve('5.1@1040ABCD', 'KSTP-HD')).toMatchObject({
+      id: 'KSTP.us',
+      displayNames: ['KSTP'],
+      number: '5.1',
+    });
+  });
+
+  it('prefers an entry keyed by the full namespaced GuideNumber', () => {
+    expect(map.getId('11.1@1040ABCD')).toBe('KARE.tuner2');
+    expect(map.getId('11.1@1050EFGH')).toBe('11.1@1050EFGH');
+  });
+
+  it('sorts namespaced channels by their mapped order', () => {
+    expect(map.sort(['2.1', '5.1@1040ABCD', '11.1@1040ABCD'], (number) => number)).toEqual([
+      '11.1@1040ABCD',
+      '5.1@1040ABCD',
+      '2.1',
+    ]);
+  });
+
+  it('does not warn about entries matched by a namespaced GuideNumber', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    map.warnUnmatched(['5.1@1040ABCD', '11.1@1040ABCD']);
+
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,91 @@
+import { ParentalFilter, extractRating, parseRating } from '../content-rating';
+import type { EPGResponse, ProgrammeGuide } from '../../types/hdhomerun';
+
+function programme(fields: Partial<ProgrammeGuide>): ProgrammeGuide {
+  return { StartTime: 1757984400, EndTime: 1757988000, Title: 'Drama', ...fields };
+}
+
+describe('parseRating', () => {
+  it('normalizes TV and movie ratings', () => {
+    expect(parseRating('tvpg')).toEqual({ system: 'VCHIP', value: 'TV-PG' });
+    expect(parseRating('TV-14-LV')).toEqual({ system: 'VCHIP', value: 'TV-14' });
+    expect(parseRating(' pg-13 ')).toEqual({ system: 'MPAA', value: 'PG-13' });
+    expect(parseRating('Not Rated')).toBeNull();
+  });
+});
+
+describe('extractRating', () => {
+  it('prefers a rating field over the synopsis', () => {
+    const rating = extractRating(programme({ ContentRating: 'TV-G', Synopsis: 'A comedy. TV-MA' }));
+
+    expect(rating).toEqual({ system: 'VCHIP', value: 'TV-G' });
+  });
+
+  it('only trusts movie ratings in a synopsis when spelled out', () => {
+    expect(extractRating(programme({ Synopsis: 'Rated R for violence.' }))).toEqual({
+      system: 'MPAA',
+      value: 'R',
+    });
+    expect(extractRating(programme({ Synopsis: 'A PG story about G forces.' }))).toBeNull();
+  });
+});
+
+describe('ParentalFilter', () => {
+  const guide: EPGResponse = [
+    {
+      GuideNumber: '5.1',
+      GuideName: 'KSTP',
+      Guide: [
+        programme({ Title: 'Cartoons', Rating: 'TV-Y7' }),
+        programme({ Title: 'Late Movie', Rating: 'R', Synopsis: 'Crime thriller.' }),
+        programme({ Title: 'Unrated' }),
+      ],
+    },
+  ];
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('drops programmes rated above the maximum', () => {
+    const filter = new ParentalFilter({
+      maxRating: 'TV-PG',
+      mode: 'drop',
+      maskTitle: 'Blocked',
+      blockUnrated: false,
+    });
+
+    const titles = filter.filterGuide(guide)[0].Guide.map((program) => program.Title);
+
+    expect(titles).toEqual(['Cartoons', 'Unrated']);
+  });
+
+  it('masks blocked programmes, including unrated ones when asked', () => {
+    const filter = new ParentalFilter({
+      maxRating: 'PG',
+      mode: 'mask',
+      maskTitle: 'Blocked',
+      blockUnrated: true,
+    });
+
+    const [, movie, unrated] = filter.filterGuide(guide)[0].Guide;
+
+    expect(movie).toEqual({
+      StartTime: 1757984400,
+      EndTime: 1757988000,
+      Title: 'Blocked',
+      Rating: 'R',
+    });
+    expect(unrated.Title).toBe('Blocked');
+  });
+
+  it('rejects an unknown maximum rating', () => {
+    expect(
+      () => new ParentalFilter({ maxRating: 'X', mode: 'drop', maskTitle: '', blockUnrated: false })
+    ).toThrow('Invalid PARENTAL_MAX_RATING');
+  });
+});
@@ -0,0 +1,116 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { XMLTVGenerator } from '../generator';
+import type { GuideData } from '../../types/guide-source';
+
+const guide: GuideData = {
+  lineup: [{ GuideNumber: '5.1', GuideName: 'KSTP' }],
+  guide: [
+    {
+      GuideNumber: '5.1',
+      GuideName: 'KSTP',
+      Guide: [
+        {
+          // 2025-09-15 20:00 CDT, first aired that day
+          StartTime: 1757984400,
+          EndTime: 1757988000,
+          Title: 'Drama',
+          EpisodeNumber: 'S01E05',
+          OriginalAirdate: 1757894400,
+        },
+      ],
+    },
+  ],
+};
+
+describe('XMLTVGenerator', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'xmltv-generator-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function render(generator: XMLTVGenerator, data: GuideData = guide): Promise<string> {
+    const file = path.join(dir, 'epg.xml');
+    await generator.writeToFile(data, 'http://127.0.0.1', file);
+    return fs.readFile(file, 'utf-8');
+  }
+
+  it('marks evening airings new by local date when writing UTC timestamps', async () => {
+    const xml = await render(
+      new XMLTVGenerator({ timeZone: 'UTC', localTimeZone: 'America/Chicago' })
+    );
+
+    expect(xml).toContain('start="20250916010000 +0000"');
+    expect(xml).toContain('<new/>');
+    expect(xml).not.toContain('previously-shown');
+  });
+
+  it('leaves premiere and finale markers off reruns', async () => {
+    const program = guide.guide[0].Guide[0];
+    const rerun: GuideData = {
+      ...guide,
+      guide: [
+        {
+          ...guide.guide[0],
+          Guide: [
+            { ...program, EpisodeTitle: 'Season Premiere: Homecoming' },
+            {
+              ...program,
+              StartTime: program.EndTime,
+              EndTime: program.EndTime + 3600,
+              EpisodeTitle: 'Homecoming (Season Finale)',
+              OriginalAirdate: 1757030400,
+            },
+          ],
+        },
+      ],
+    };
+
+    const xml = await render(new XMLTVGenerator({ timeZone: 'America/Chicago' }), rerun);
+
+    expect(xml).toContain('<premiere lang="en">Season Premiere</premiere>');
+    expect(xml).not.toContain('last-chance');
+  });
+
+  it('keeps the episode title of a sports listing and never infers live', async () => {
+    const program = guide.guide[0].Guide[0];
+    const games: GuideData = {
+      ...guide,
+      guide: [
+        {
+          ...guide.guide[0],
+          Guide: [
+            {
+              ...program,
+              Title: 'College Football: No. 5 Minnesota at Iowa',
+              EpisodeTitle: 'Homecoming',
+              EpisodeNumber: undefined,
+            },
+            {
+              ...program,
+              StartTime: program.EndTime,
+              EndTime: program.EndTime + 3600,
+              Title: 'College Football: Ohio State at Michigan',
+              EpisodeNumber: undefined,
+            },
+          ],
+        },
+      ],
+    };
+
+    const xml = await render(
+      new XMLTVGenerator({ timeZone: 'America/Chicago', sports: true }),
+      games
+    );
+
+    expect(xml).toContain('<sub-title lang="en">Homecoming</sub-title>');
+    expect(xml).toContain('<sub-title lang="en">Ohio State at Michigan</sub-title>');
+    expect(xml).not.toContain('<live/>');
+  });
+});
@@ -0,0 +1,64 @@
+import { CONTENT_ID_SYSTEM, getProgrammeIds } from '../programme-ids';
+import type { ProgrammeGuide } from '../../types/hdhomerun';
+
+function programme(fields: Partial<ProgrammeGuide>): ProgrammeGuide {
+  return { StartTime: 1757970000, EndTime: 1757971800, Title: 'Evening News', ...fields };
+}
+
+describe('getProgrammeIds', () => {
+  it('formats a Gracenote ProgramID as dd_progid', () => {
+    const ids = getProgrammeIds(programme({ ProgramID: 'EP012345670005', SeriesID: 'SH01234567' }));
+
+    expect(ids).toEqual({ progid: 'EP01234567.0005', seriesId: 'SH01234567' });
+  });
+
+  it('never makes up a dd_progid without a ProgramID', () => {
+    const ids = getProgrammeIds(programme({}));
+
+    expect(ids.progid).toBeUndefined();
+    expect(ids.contentId).toMatch(/^show\./);
+    expect(CONTENT_ID_SYSTEM).not.toBe('dd_progid');
+  });
+
+  it('keys shows without an air date by their synopsis, not the airing time', () => {
+    const special = programme({ Title: 'Holiday Special', Synopsis: 'Carols from the city hall.' });
+    const first = getProgrammeIds(special);
+    const repeat = getProgrammeIds({ ...special, StartTime: 1757970000 + 86400 });
+    const other = getProgrammeIds({ ...special, Synopsis: 'Highlights from the parade.' });
+
+    expect(first.contentId).toBe(repeat.contentId);
+    expect(first.contentId).not.toBe(other.contentId);
+  });
+
+  it('keys shows by original air date when there is one', () => {
+    const first = getProgrammeIds(programme({ OriginalAirdate: 1757894400 }));
+    const repeat = getProgrammeIds(
+      programme({ OriginalAirdate: 1757894400, StartTime: 1758000000 })
+    );
+
+    expect(first.contentId).toBe(repeat.contentId);
+  });
+
+  it('gives every airing of an episode the same id', () => {
+    const first = getProgrammeIds(programme({ Title: 'Drama', EpisodeNumber: 'S01E05' }));
+    const repeat = getProgrammeIds(
+      programme({ Title: 'Drama', EpisodeNumber: 'S01E05', StartTime: 1758000000 })
+    );
+    const next = getProgrammeIds(programme({ Title: 'Drama', EpisodeNumber: 'S01E06' }));
+
+    expect(first.contentId).toBe(repeat.contentId);
+    expect(first.contentId).not.toBe(next.contentId);
+  });
+
+  it('tells movie remakes apart by release year', () => {
+    const original = getProgrammeIds(
+      programme({ Title: 'Dune', Filter: ['Movie'], OriginalAirdate: 441763200 })
+    );
+    const remake = getProgrammeIds(
+      programme({ Title: 'Dune', Filter: ['Movie'], OriginalAirdate: 1635465600 })
+    );
+
+    expect(original.contentId).toMatch(/^movie\./);
+    expect(original.contentId).not.toBe(remake.contentId);
+  });
+});
@@ -0,0 +1,83 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadRewriteRules } from '../rewrite-rules';
+import type { EPGResponse } from '../../types/hdhomerun';
+
+const guide: EPGResponse = [
+  {
+    GuideNumber: '7.1@1040ABCD',
+    GuideName: 'KSTP',
+    Guide: [
+      { StartTime: 0, EndTime: 3600, Title: 'MONDAY NIGHT FOOTBALL - Bears at Vikings' },
+      { StartTime: 3600, EndTime: 5400, Title: 'Paid Programming' },
+    ],
+  },
+  {
+    GuideNumber: '9.1',
+    GuideName: 'KMSP',
+    Guide: [{ StartTime: 0, EndTime: 3600, Title: 'Nightly News - Weekend' }],
+  },
+];
+
+describe('RewriteRules', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rewrite-rules-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function load(rules: unknown[]) {
+    const file = path.join(dir, 'rules.json');
+    await fs.writeFile(file, JSON.stringify({ rules }));
+    return loadRewriteRules(file);
+  }
+
+  it('matches channel patterns against the GuideNumber without the device suffix', async () => {
+    const rules = await load([
+      {
+        name: 'Split',
+        channel: '^7\\.1$',
+        title: '^(.+?) - (.+)$',
+        setTitle: '$1',
+        subTitle: '$2',
+        titleCase: true,
+      },
+    ]);
+
+    const { guide: rewritten, report } = rules.apply(guide);
+
+    expect(rewritten[0].Guide[0]).toMatchObject({
+      Title: 'Monday Night Football',
+      EpisodeTitle: 'Bears at Vikings',
+    });
+    expect(rewritten[1].Guide[0].Title).toBe('Nightly News - Weekend');
+    expect(report).toEqual([
+      {
+        name: 'Split',
+        hits: 1,
+        example: '"MONDAY NIGHT FOOTBALL - Bears at Vikings" -> "Monday Night Football"',
+      },
+    ]);
+  });
+
+  it('drops programmes and leaves the guide alone in a dry run', async () => {
+    const rules = await load([{ name: 'Infomercials', title: '^Paid Programming$', drop: true }]);
+
+    expect(rules.apply(guide).guide[0].Guide).toHaveLength(1);
+
+    const dryRun = rules.apply(guide, true);
+    expect(dryRun.guide).toBe(guide);
+    expect(dryRun.report[0]).toMatchObject({ hits: 1, example: '"Paid Programming" -> dropped' });
+  });
+
+  it('skips rules without a pattern or an action', async () => {
+    const rules = await load([{ name: 'No action', title: 'x' }, { setTitle: 'No pattern' }]);
+
+    expect(rules.isEnabled()).toBe(false);
+  });
+});
@@ -0,0 +1,71 @@
+import { formatMatchup, parseSportsEvent } from '../sports-parser';
+import type { ProgrammeGuide } from '../../types/hdhomerun';
+
+function programme(fields: Partial<ProgrammeGuide>): ProgrammeGuide {
+  return { StartTime: 1757984400, EndTime: 1757995200, Title: '', ...fields };
+}
+
+function matchupOf(fields: Partial<ProgrammeGuide>): string | null {
+  const event = parseSportsEvent(programme(fields));
+  return event ? formatMatchup(event) : null;
+}
+
+describe('parseSportsEvent', () => {
+  it('parses a league title with the teams in the episode title', () => {
+    const event = parseSportsEvent(
+      programme({ Title: 'NFL Football', EpisodeTitle: 'Minnesota Vikings at Green Bay Packers' })
+    );
+
+    expect(event).toMatchObject({
+      league: 'NFL',
+      sport: 'Football',
+      away: 'Minnesota Vikings',
+      home: 'Green Bay Packers',
+      neutral: false,
+      eventType: 'game',
+    });
+  });
+
+  it('parses teams after a sport prefix and strips rankings', () => {
+    expect(matchupOf({ Title: 'College Football: No. 5 Minnesota at Iowa' })).toBe(
+      'Minnesota at Iowa'
+    );
+    expect(matchupOf({ Title: 'College Football Pregame: Minnesota at Iowa' })).toBe(
+      'Minnesota at Iowa (Pregame)'
+    );
+  });
+
+  it('parses neutral-site matchups in sports events', () => {
+    expect(matchupOf({ Title: 'USA vs. Mexico', Filter: ['Sports event', 'Soccer'] })).toBe(
+      'USA vs. Mexico'
+    );
+  });
+
+  it('never treats sports non-events as games', () => {
+    expect(
+      parseSportsEvent(
+        programme({ Title: 'Bass Fishing at Lake Minnetonka', Filter: ['Sports non-event'] })
+      )
+    ).toBeNull();
+    expect(
+      parseSportsEvent(
+        programme({
+          Title: 'Golf Channel Academy',
+          EpisodeTitle: 'Putting at Pebble Beach',
+          Filter: ['Sports non-event', 'Golf'],
+        })
+      )
+    ).toBeNull();
+  });
+
+  it('needs an event genre or a league or sport title before reading teams', () => {
+    expect(matchupOf({ Title: 'Bass Fishing at Lake Minnetonka', Filter: ['Sports'] })).toBeNull();
+    expect(
+      matchupOf({ Title: 'Golf Channel Academy', EpisodeTitle: 'Putting at Pebble Beach' })
+    ).toBeNull();
+  });
+
+  it('leaves listings that are not sports alone', () => {
+    expect(parseSportsEvent(programme({ Title: 'Love at First Sight' }))).toBeNull();
+  });
+});
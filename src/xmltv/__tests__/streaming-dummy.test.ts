@@ -0,0 +1,100 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { XMLValidator } from 'fast-xml-parser';
+import { streamDummyProgramming } from '../streaming-dummy';
+
+const input = `<?xml version="1.0" encoding="UTF-8"?>
+<tv>
+  <channel id="5.1">
+    <display-name lang="en">KSTP</display-name>
+  </channel>
+  <channel id="7.1">
+    <display-name lang="en">Arts &amp; Crafts</display-name>
+    <display-name lang="en">7.1 Arts &amp; Crafts</display-name>
+  </channel>
+  <programme channel="5.1" start="20250915200000 -0500" stop="20250915210000 -0500">
+    <title lang="en">News</title>
+  </programme>
+</tv>
+`;
+
+describe('streamDummyProgramming', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'streaming-dummy-'));
+    await fs.writeFile(path.join(dir, 'epg.xml'), input);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('fills empty and missing channels without touching listed ones', async () => {
+    const output = path.join(dir, 'epg-with-dummy.xml');
+    const result = await streamDummyProgramming(
+      path.join(dir, 'epg.xml'),
+      output,
+      { duration: '12hr', daysFilter: 1, timeZone: 'UTC', description: 'Nothing on {channel}' },
+      [
+        { GuideNumber: '5.1', GuideName: 'KSTP' },
+        { GuideNumber: '7.1', GuideName: 'Arts & Crafts' },
+        { GuideNumber: '9.1', GuideName: 'KMSP' },
+      ]
+    );
+    const xml = await fs.readFile(output, 'utf-8');
+
+    expect(result).toEqual({ channelsAdded: 1, dummyChannels: 2 });
+    expect(XMLValidator.validate(xml)).toBe(true);
+    expect(xml).toContain('<channel id="9.1">');
+    expect(xml).toContain('Nothing on Arts &amp; Crafts');
+    expect(xml.match(/<programme channel="7\.1"/g)).toHaveLength(2);
+    expect(xml.match(/<programme channel="9\.1"/g)).toHaveLength(2);
+    expect(xml.match(/<programme channel="5\.1"/g)).toHaveLength(1);
+  });
+
+  it('copies the file when every channel has programmes', async () => {
+    const listed = input.replace(/ {2}<channel id="7\.1">[\s\S]*?<\/channel>\n/, '');
+    await fs.writeFile(path.join(dir, 'listed.xml'), listed);
+
+    const output = path.join(dir, 'listed-copy.xml');
+    const result = await streamDummyProgramming(
+      path.join(dir, 'listed.xml'),
+      output,
+      { duration: '1hr', timeZone: 'UTC' },
+      [{ GuideNumber: '5.1', GuideName: 'KSTP' }]
+    );
+
+    expect(result).toEqual({ channelsAdded: 0, dummyChannels: 0 });
+    expect(await fs.readFile(output, 'utf-8')).toBe(listed);
+  });
+
+  it('reads channels split across read chunks', async () => {
+    const numbers = Array.from({ length: 2000 }, (_, index) => `${index + 2}.1`);
+    const large = [
+      '<?xml version="1.0" encoding="UTF-8"?>\n<tv>\n',
+      ...numbers.map(
+        (number) =>
+          `  <channel id="${number}">\n    <display-name lang="en">Channel ${number}</display-name>\n  </channel>\n`
+      ),
+      ...numbers
+        .slice(1)
+        .map(
+          (number) =>
+            `  <programme channel="${number}" start="20250915200000 +0000" stop="20250915210000 +0000">\n    <title lang="en">Show</title>\n  </programme>\n`
+        ),
+      '</tv>\n',
+    ].join('');
+    await fs.writeFile(path.join(dir, 'large.xml'), large);
+
+    const result = await streamDummyProgramming(
+      path.join(dir, 'large.xml'),
+      path.join(dir, 'large-with-dummy.xml'),
+      { duration: '12hr', daysFilter: 1, timeZone: 'UTC' },
+      numbers.map((number) => ({ GuideNumber: number, GuideName: `Channel ${number}` }))
+    );
+
+    expect(result).toEqual({ channelsAdded: 0, dummyChannels: 1 });
+  });
+});
@@ -0,0 +1,58 @@
+import { repairTimeline } from '../timeline-fill';
+import type { TimelineRepairOptions } from '../timeline-fill';
+import type { EPGResponse } from '../../types/hdhomerun';
+
+const guide: EPGResponse = [
+  {
+    GuideNumber: '5.1',
+    GuideName: 'KSTP',
+    Guide: [
+      { StartTime: 0, EndTime: 3600, Title: 'Game' },
+      { StartTime: 1800, EndTime: 5400, Title: 'News' },
+      { StartTime: 9000, EndTime: 10800, Title: 'Late Show' },
+    ],
+  },
+];
+
+function options(overrides: Partial<TimelineRepairOptions>): TimelineRepairOptions {
+  return {
+    overlapPolicy: 'none',
+    fillGaps: false,
+    fillTail: false,
+    minGapSeconds: 60,
+    until: 10800,
+    placeholder: { title: 'No Information', description: '', blockHours: 1 },
+    ...overrides,
+  };
+}
+
+describe('repairTimeline', () => {
+  it('leaves overlaps alone with the none policy', () => {
+    const { guide: repaired, repairs } = repairTimeline(guide, options({}));
+
+    expect(repaired[0].Guide).toEqual(guide[0].Guide);
+    expect(repairs).toEqual([]);
+  });
+
+  it('trims the earlier programme with the trim policy', () => {
+    const { guide: repaired } = repairTimeline(guide, options({ overlapPolicy: 'trim' }));
+
+    expect(repaired[0].Guide.map((p) => [p.Title, p.EndTime])).toEqual([
+      ['Game', 1800],
+      ['News', 5400],
+      ['Late Show', 10800],
+    ]);
+  });
+
+  it('drops the later programme with the drop policy', () => {
+    const { guide: repaired } = repairTimeline(guide, options({ overlapPolicy: 'drop' }));
+
+    expect(repaired[0].Guide.map((p) => p.Title)).toEqual(['Game', 'Late Show']);
+  });
+
+  it('fills gaps after overlapping programmes from where coverage ends', () => {
+    const { repairs } = repairTimeline(guide, options({ fillGaps: true }));
+
+    expect(repairs).toEqual([{ kind: 'gap', channel: '5.1', start: 5400, end: 9000 }]);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Airing Flags
+ * Detects premieres, finales and live airings from HDHomeRun guide fields
+ * and from markers in the title, episode title and synopsis
+ *
+ * HDHomeRun only sends some of these fields for some lineups, so each flag
+ * is set when either the field or a text marker says so. Premiere and finale
+ * markers only count at the start or end of the title or episode title
+ * ("Season Premiere: ...", "... (Series Finale)"); in running text they tend
+ * to describe something else ("...attends a movie premiere").
+ */
+
+import type { ProgrammeGuide } from '../types/hdhomerun';
+
+export interface AiringFlags {
+  first: boolean; // Guide marks this as a first airing
+  premiere?: string; // e.g. "Series Premiere", "Season Premiere", "Premiere"
+  lastChance?: string; // e.g. "Series Finale", "Season Finale"
+  live: boolean;
+}
+
+const PREMIERE_MARKERS = anchoredMarkers('series|season|movie|network|tv', 'premiere');
+const FINALE_MARKERS = anchoredMarkers('series|season', 'finale');
+const LIVE_MARKER = /(^\s*live\s*[:-])|(\(\s*live\s*\))|(\blive\s+coverage\b)/i;
+
+/**
+ * Flags for a single airing
+ */
+export function detectAiringFlags(program: ProgrammeGuide): AiringFlags {
+  const texts = [program.Title, program.EpisodeTitle, leadingSentence(program.Synopsis)].filter(
+    (text): text is string => Boolean(text)
+  );
+  const filters = (program.Filter || []).map((tag) => tag.toLowerCase());
+
+  const flags: AiringFlags = {
+    first: isSet(program.First) || isSet(program.New),
+    live: isSet(program.Live) || filters.includes('live') || texts.some((t) => LIVE_MARKER.test(t)),
+  };
+
+  const titles = [program.Title, program.EpisodeTitle].filter((text): text is string =>
+    Boolean(text)
+  );
+
+  const premiere = findMarker(titles, PREMIERE_MARKERS, 'Premiere');
+  if (premiere) {
+    flags.premiere = premiere;
+  } else if (isSet(program.Premiere)) {
+    flags.premiere = 'Premiere';
+  }
+
+  const finale = findMarker(titles, FINALE_MARKERS, 'Finale');
+  if (finale) {
+    flags.lastChance = finale;
+  } else if (isSet(program.Finale) || isSet(program.LastChance)) {
+    flags.lastChance = 'Finale';
+  }
+
+  return flags;
+}
+
+/**
+ * Marker text normalized to title case, e.g. "season premiere" → "Season Premiere"
+ */
+function findMarker(texts: string[], patterns: RegExp[], noun: string): string | undefined {
+  for (const text of texts) {
+    const match = patterns.map((pattern) => text.match(pattern)).find(Boolean);
+    if (match) {
+      const qualifier = match[1];
+      return qualifier
+        ? `${qualifier.charAt(0).toUpperCase()}${qualifier.slice(1).toLowerCase()} ${noun}`
+        : noun;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * "Season Premiere" at the start of a text (before a separator or the end),
+ * or at its end, optionally in brackets
+ */
+function anchoredMarkers(qualifiers: string, noun: string): RegExp[] {
+  const marker = `(?:(${qualifiers})\\s+)?${noun}`;
+  return [
+    new RegExp(`^\\s*[([]?\\s*${marker}\\s*(?:$|[)\\]:!.-])`, 'i'),
+    new RegExp(`(?:^|[\\s(\\[:-])${marker}\\s*[)\\]!.]*\\s*$`, 'i'),
+  ];
+}
+
+/**
+ * Only the opening sentence of a synopsis carries markers like "Season premiere."
+ * Later sentences tend to mention premieres of other things
+ */
+function leadingSentence(synopsis: string | undefined): string | undefined {
+  return synopsis?.split(/(?<=[.!?])\s/)[0];
+}
+
+function isSet(value: unknown): boolean {
+  return value === true || value === 1 || value === '1' || value === 'true';
+}
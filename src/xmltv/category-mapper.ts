@@ -0,0 +1,210 @@
+/**
+ * Category Mapper
+ * Normalizes HDHomeRun Filter tags into canonical genres and adds the marker
+ * categories media servers use to classify content:
+ * - Plex and Jellyfin look for "Movie", "Sports", "News" and "Kids"
+ *
+ * Extra mappings and title/description rules can be supplied in a JSON file
+ * (CATEGORY_RULES_FILE):
+ *
+ * {
+ *   "mappings": { "Soap": "Drama" },
+ *   "rules": [
+ *     { "title": "^NFL ", "categories": ["Sports", "Football"] },
+ *     { "description": "documentary", "categories": ["Documentary"] }
+ *   ]
+ * }
+ *
+ * Rule patterns are case-insensitive regular expressions; a rule with both
+ * title and description only matches when both do.
+ */
+
+import { promises as fs } from 'fs';
+import type { ProgrammeGuide } from '../types/hdhomerun';
+
+export interface CategoryRule {
+  title?: RegExp;
+  description?: RegExp;
+  categories: string[];
+}
+
+// Lowercased HDHomeRun/Gracenote genre -> canonical genre
+const DEFAULT_MAPPINGS: Record<string, string> = {
+  movies: 'Movie',
+  movie: 'Movie',
+  film: 'Movie',
+  'feature film': 'Movie',
+  sports: 'Sports',
+  sport: 'Sports',
+  'sports event': 'Sports',
+  'sports non-event': 'Sports',
+  'sports talk': 'Sports',
+  news: 'News',
+  newsmagazine: 'News',
+  'public affairs': 'News',
+  kids: 'Kids',
+  children: 'Kids',
+  "children's": 'Kids',
+  'sci-fi': 'Science Fiction',
+  'science fiction': 'Science Fiction',
+  'talk show': 'Talk',
+  talk: 'Talk',
+  'reality tv': 'Reality',
+  reality: 'Reality',
+  docudrama: 'Documentary',
+  documentary: 'Documentary',
+  sitcom: 'Comedy',
+  comedy: 'Comedy',
+  drama: 'Drama',
+};
+
+// Canonical genres that imply a marker category
+const MARKERS: Record<string, string> = {
+  Movie: 'Movie',
+  Sports: 'Sports',
+  Football: 'Sports',
+  Basketball: 'Sports',
+  Baseball: 'Sports',
+  Hockey: 'Sports',
+  Soccer: 'Sports',
+  Golf: 'Sports',
+  News: 'News',
+  Kids: 'Kids',
+};
+
+// Gracenote ProgramID prefixes that identify the programme type
+const PROGRAM_ID_MARKERS: Record<string, string> = {
+  MV: 'Movie',
+  SP: 'Sports',
+};
+
+export class CategoryMapper {
+  private readonly mappings: Map<string, string>;
+  private readonly rules: CategoryRule[];
+
+  constructor(mappings: Record<string, string> = {}, rules: CategoryRule[] = []) {
+    this.mappings = new Map(Object.entries({ ...DEFAULT_MAPPINGS, ...lowercaseKeys(mappings) }));
+    this.rules = rules;
+  }
+
+  /**
+   * Categories for a programme: normalized Filter tags, rule categories, then
+   * any marker categories not already present
+   */
+  map(program: ProgrammeGuide): string[] {
+    const categories: string[] = [];
+
+    for (const filter of program.Filter || []) {
+      categories.push(this.mappings.get(filter.trim().toLowerCase()) || filter.trim());
+    }
+
+    for (const rule of this.rules) {
+      if (this.matches(rule, program)) {
+        categories.push(...rule.categories);
+      }
+    }
+
+    const programId = typeof program.ProgramID === 'string' ? program.ProgramID : '';
+    const markers = categories.map((category) => MARKERS[category]).filter(Boolean);
+    const idMarker = PROGRAM_ID_MARKERS[programId.slice(0, 2)];
+    if (idMarker) {
+      markers.push(idMarker);
+    }
+
+    return unique([...categories, ...markers]);
+  }
+
+  private matches(rule: CategoryRule, program: ProgrammeGuide): boolean {
+    if (rule.title && !rule.title.test(program.Title || '')) {
+      return false;
+    }
+    if (rule.description && !rule.description.test(program.Synopsis || '')) {
+      return false;
+    }
+    return true;
+  }
+}
+
+/**
+ * Build the mapper from the optional rules file
+ */
+export async function loadCategoryMapper(rulesFile: string | undefined): Promise<CategoryMapper> {
+  if (!rulesFile) {
+    return new CategoryMapper();
+  }
+
+  let parsed: { mappings?: unknown; rules?: unknown };
+  try {
+    parsed = JSON.parse(await fs.readFile(rulesFile, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to load category rules ${rulesFile}: ${error}`);
+  }
+
+  const mappings: Record<string, string> = {};
+  if (parsed.mappings && typeof parsed.mappings === 'object') {
+    for (const [from, to] of Object.entries(parsed.mappings as Record<string, unknown>)) {
+      if (typeof to === 'string' && to) {
+        mappings[from] = to;
+      }
+    }
+  }
+
+  const rules: CategoryRule[] = [];
+  for (const [index, value] of (Array.isArray(parsed.rules) ? parsed.rules : []).entries()) {
+    const rule = value as { title?: unknown; description?: unknown; categories?: unknown };
+    const categories = Array.isArray(rule.categories)
+      ? rule.categories.filter((category): category is string => typeof category === 'string')
+      : [];
+
+    if ((!rule.title && !rule.description) || categories.length === 0) {
+      console.warn(
+        `Ignoring category rule #${index + 1}: needs a title or description pattern and categories`
+      );
+      continue;
+    }
+
+    rules.push({
+      title: compileRulePattern(rule.title, index),
+      description: compileRulePattern(rule.description, index),
+      categories,
+    });
+  }
+
+  console.log(
+    `Loaded ${Object.keys(mappings).length} category mappings and ${rules.length} rules from ${rulesFile}`
+  );
+  return new CategoryMapper(mappings, rules);
+}
+
+function compileRulePattern(pattern: unknown, index: number): RegExp | undefined {
+  if (typeof pattern !== 'string' || !pattern) {
+    return undefined;
+  }
+
+  try {
+    return new RegExp(pattern, 'i');
+  } catch (error) {
+    throw new Error(`Invalid pattern in category rule #${index + 1}: ${error}`);
+  }
+}
+
+function lowercaseKeys(record: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [key.toLowerCase(), value])
+  );
+}
+
+/**
+ * Drop case-insensitive duplicates, keeping the first spelling
+ */
+function unique(categories: string[]): string[] {
+  const seen = new Set<string>();
+  return categories.filter((category) => {
+    const key = category.toLowerCase();
+    if (!category || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
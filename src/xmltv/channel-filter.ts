@@ -0,0 +1,174 @@
+/**
+ * Channel Filter
+ * Selects which lineup channels appear in the guide, using the flags the
+ * HDHomeRun lineup reports (Favorite, DRM, HD) and include/exclude rules by
+ * GuideNumber or channel name
+ *
+ * Flag rules only apply to channels the lineup reports; channels that come
+ * solely from another guide source have no flags and are judged by the
+ * include/exclude rules alone.
+ */
+
+import type { ChannelFilterConfig } from '../types/config';
+import type { ChannelLineupItem, EPGResponse } from '../types/hdhomerun';
+
+interface GuideNumberRange {
+  from: number[];
+  to: number[];
+}
+
+export class ChannelFilter {
+  private readonly config: ChannelFilterConfig;
+  private readonly includeRanges: GuideNumberRange[];
+  private readonly excludeRanges: GuideNumberRange[];
+  private readonly includeName: RegExp | null;
+  private readonly excludeName: RegExp | null;
+
+  constructor(config: ChannelFilterConfig) {
+    this.config = config;
+    this.includeRanges = config.include.map(parseRange);
+    this.excludeRanges = config.exclude.map(parseRange);
+    this.includeName = compilePattern(config.includeName, 'CHANNEL_INCLUDE_NAME');
+    this.excludeName = compilePattern(config.excludeName, 'CHANNEL_EXCLUDE_NAME');
+  }
+
+  /**
+   * Whether any rule is configured
+   */
+  isEnabled(): boolean {
+    return (
+      this.config.favoritesOnly ||
+      this.config.excludeDRM ||
+      this.config.hdOnly ||
+      this.includeRanges.length > 0 ||
+      this.excludeRanges.length > 0 ||
+      this.includeName !== null ||
+      this.excludeName !== null
+    );
+  }
+
+  /**
+   * Decide whether a channel is kept
+   * `lineupItem` carries the device flags; it is undefined for channels the
+   * lineup does not report
+   */
+  matches(guideNumber: string, name: string, lineupItem?: ChannelLineupItem): boolean {
+    if (lineupItem) {
+      if (this.config.favoritesOnly && !isSet(lineupItem.Favorite)) {
+        return false;
+      }
+      if (this.config.excludeDRM && isSet(lineupItem.DRM)) {
+        return false;
+      }
+      if (this.config.hdOnly && !isSet(lineupItem.HD)) {
+        return false;
+      }
+    }
+
+    // Namespaced ids (5.1@DeviceID) are matched on the channel number alone
+    const number = parseGuideNumber(guideNumber.split('@')[0]);
+
+    const hasIncludeRules = this.includeRanges.length > 0 || this.includeName !== null;
+    if (hasIncludeRules) {
+      const included =
+        (number !== null && this.includeRanges.some((range) => inRange(number, range))) ||
+        (this.includeName !== null && this.includeName.test(name));
+      if (!included) {
+        return false;
+      }
+    }
+
+    if (number !== null && this.excludeRanges.some((range) => inRange(number, range))) {
+      return false;
+    }
+    if (this.excludeName !== null && this.excludeName.test(name)) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Drop guide channels that do not match, logging how many were removed
+   */
+  filterGuide(guide: EPGResponse, lineup: ChannelLineupItem[]): EPGResponse {
+    if (!this.isEnabled()) {
+      return guide;
+    }
+
+    const lineupByNumber = new Map(lineup.map((item) => [item.GuideNumber, item]));
+    const kept = guide.filter((channel) => {
+      const lineupItem = lineupByNumber.get(channel.GuideNumber);
+      return this.matches(
+        channel.GuideNumber,
+        lineupItem?.GuideName || channel.GuideName,
+        lineupItem
+      );
+    });
+
+    console.log(`Channel filter kept ${kept.length} of ${guide.length} channels`);
+    return kept;
+  }
+}
+
+/**
+ * Lineup flags are reported as 1 when set
+ */
+function isSet(flag: unknown): boolean {
+  return flag === 1 || flag === '1' || flag === true;
+}
+
+/**
+ * Split "5.1" into [5, 1]; returns null for non-numeric channel ids
+ */
+function parseGuideNumber(value: string): number[] | null {
+  const parts = value.trim().split('.');
+  if (parts.length === 0 || parts.some((part) => !/^\d+$/.test(part))) {
+    return null;
+  }
+  return parts.map((part) => parseInt(part, 10));
+}
+
+/**
+ * Parse "7.1", "5-9" or "5.1-5.4"
+ * A bound without a minor number covers every subchannel of that major
+ */
+function parseRange(rule: string): GuideNumberRange {
+  const [fromText, toText = fromText] = rule.split('-').map((part) => part.trim());
+  const from = parseGuideNumber(fromText);
+  const to = parseGuideNumber(toText);
+
+  if (!from || !to) {
+    throw new Error(
+      `Invalid channel rule "${rule}": expected a GuideNumber or range like 5-9 or 5.1-5.4`
+    );
+  }
+
+  return { from, to: to.length === 1 ? [to[0], Infinity] : to };
+}
+
+function inRange(number: number[], range: GuideNumberRange): boolean {
+  return compareNumbers(number, range.from) >= 0 && compareNumbers(number, range.to) <= 0;
+}
+
+function compareNumbers(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const diff = (a[i] ?? 0) - (b[i] ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+function compilePattern(pattern: string | undefined, variable: string): RegExp | null {
+  if (!pattern) {
+    return null;
+  }
+
+  try {
+    return new RegExp(pattern, 'i');
+  } catch (error) {
+    throw new Error(`Invalid ${variable} pattern: ${error}`);
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Channel Map
+ * Per-GuideNumber overrides for the XMLTV channel id, display names, channel
+ * number and sort order, loaded from a JSON file (CHANNEL_MAP_FILE):
+ *
+ * {
+ *   "5.1": { "id": "KSTP.us", "displayNames": ["KSTP", "ABC 5"], "number": "5", "sortOrder": 1, "group": "Locals" }
+ * }
+ *
+ * Every field is optional. Custom ids keep media server mappings stable when
+ * a re-scan changes the GuideNumbers. `number` replaces the GuideNumber in
+ * display names, lcn and the playlist's tvg-chno.
+ *
+ * Namespaced GuideNumbers ("5.1@1040ABCD", from multiple devices) match an
+ * entry keyed by the full value first, then one keyed by the bare number.
+ */
+
+import { promises as fs } from 'fs';
+import type { DisplayNameVariant } from '../types/config';
+
+export interface ChannelMapEntry {
+  id?: string;
+  displayNames?: string[];
+  number?: string;
+  sortOrder?: number;
+  group?: string; // M3U group-title
+}
+
+export interface MappedChannel {
+  id: string;
+  displayNames: string[];
+  number: string; // Mapped number, or the GuideNumber without a @DeviceID suffix
+  sortOrder?: number;
+  group?: string;
+}
+
+export class ChannelMap {
+  private readonly entries: Map<string, ChannelMapEntry>;
+
+  constructor(entries: Map<string, ChannelMapEntry> = new Map()) {
+    this.entries = entries;
+  }
+
+  /**
+   * XMLTV channel id for a GuideNumber
+   */
+  getId(guideNumber: string): string {
+    return this.lookup(guideNumber)?.id || guideNumber;
+  }
+
+  /**
+   * Resolved id, display names, number and sort order for a channel
+   * Display names default to the lineup name
+   */
+  resolve(guideNumber: string, name: string): MappedChannel {
+    const entry = this.lookup(guideNumber);
+
+    return {
+      id: entry?.id || guideNumber,
+      displayNames: entry?.displayNames?.length ? [...entry.displayNames] : [name],
+      number: entry?.number || guideNumber.split('@')[0],
+      sortOrder: entry?.sortOrder,
+      group: entry?.group,
+    };
+  }
+
+  /**
+   * Order items by mapped sort order; unmapped items keep their order after them
+   */
+  sort<T>(items: T[], getGuideNumber: (item: T) => string): T[] {
+    const order = (item: T) => this.lookup(getGuideNumber(item))?.sortOrder ?? Infinity;
+    return items
+      .map((item, index) => ({ item, index }))
+      .sort((a, b) => order(a.item) - order(b.item) || a.index - b.index)
+      .map(({ item }) => item);
+  }
+
+  /**
+   * Log a warning for every entry that matches none of the given GuideNumbers
+   */
+  warnUnmatched(guideNumbers: Iterable<string>): void {
+    const known = new Set<string>();
+    for (const guideNumber of guideNumbers) {
+      known.add(guideNumber);
+      known.add(guideNumber.split('@')[0]);
+    }
+    for (const guideNumber of this.entries.keys()) {
+      if (!known.has(guideNumber)) {
+        console.warn(`Channel map entry "${guideNumber}" does not match any channel`);
+      }
+    }
+  }
+
+  private lookup(guideNumber: string): ChannelMapEntry | undefined {
+    return this.entries.get(guideNumber) ?? this.entries.get(guideNumber.split('@')[0]);
+  }
+}
+
+/**
+ * Load the channel map file; an unset path yields an empty map
+ */
+export async function loadChannelMap(filePath: string | undefined): Promise<ChannelMap> {
+  if (!filePath) {
+    return new ChannelMap();
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to load channel map ${filePath}: ${error}`);
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Invalid channel map ${filePath}: expected an object keyed by GuideNumber`);
+  }
+
+  const entries = new Map<string, ChannelMapEntry>();
+  const ids = new Map<string, string>();
+
+  for (const [guideNumber, value] of Object.entries(parsed as Record<string, unknown>)) {
+    if (!value || typeof value !== 'object') {
+      console.warn(`Ignoring channel map entry "${guideNumber}": expected an object`);
+      continue;
+    }
+
+    const entry = value as Record<string, unknown>;
+    const mapped: ChannelMapEntry = {
+      id: typeof entry.id === 'string' && entry.id ? entry.id : undefined,
+      displayNames: Array.isArray(entry.displayNames)
+        ? entry.displayNames.filter(
+            (name): name is string => typeof name === 'string' && name !== ''
+          )
+        : undefined,
+      number: entry.number !== undefined ? String(entry.number) : undefined,
+      sortOrder: typeof entry.sortOrder === 'number' ? entry.sortOrder : undefined,
+      group: typeof entry.group === 'string' && entry.group ? entry.group : undefined,
+    };
+
+    const id = mapped.id || guideNumber;
+    const previous = ids.get(id);
+    if (previous !== undefined) {
+      console.warn(`Channel map entries "${previous}" and "${guideNumber}" both use id "${id}"`);
+    }
+    ids.set(id, guideNumber);
+
+    entries.set(guideNumber, mapped);
+  }
+
+  console.log(`Loaded ${entries.size} channel map entries from ${filePath}`);
+  return new ChannelMap(entries);
+}
+
+/**
+ * Expand a channel into its display-name variants, in the configured order
+ * - name: each mapped (or lineup) name, e.g. "KSTP"
+ * - number: "5.1"
+ * - number-name: "5.1 KSTP"
+ * - affiliate: the network from the guide, e.g. "ABC"
+ * Duplicates are dropped; the first name is always kept so a channel never
+ * ends up without a display-name.
+ */
+export function composeDisplayNames(
+  channel: MappedChannel,
+  variants: DisplayNameVariant[],
+  affiliate?: string
+): string[] {
+  const names: string[] = [];
+
+  for (const variant of variants) {
+    switch (variant) {
+      case 'name':
+        names.push(...channel.displayNames);
+        break;
+      case 'number':
+        names.push(channel.number);
+        break;
+      case 'number-name':
+        names.push(`${channel.number} ${channel.displayNames[0]}`);
+        break;
+      case 'affiliate':
+        if (affiliate) {
+          names.push(affiliate);
+        }
+        break;
+    }
+  }
+
+  const unique = [...new Set(names.filter((name) => name.trim() !== ''))];
+  return unique.length > 0 ? unique : [channel.displayNames[0]];
+}
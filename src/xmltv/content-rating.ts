@@ -0,0 +1,170 @@
+/**
+ * Content Rating
+ * Finds a programme's TV Parental Guidelines (VCHIP) or MPAA rating and
+ * enforces the parental-control output mode
+ *
+ * HDHomeRun has no documented rating field; some lineups carry one in an
+ * extra field, others only mention it in the synopsis ("... TV-PG").
+ */
+
+import type { EPGResponse, ProgrammeGuide } from '../types/hdhomerun';
+import type { ParentalConfig } from '../types/config';
+
+export interface ContentRating {
+  system: 'VCHIP' | 'MPAA';
+  value: string;
+}
+
+// Extra ProgrammeGuide fields checked before the synopsis
+const RATING_FIELDS = ['Rating', 'ContentRating', 'TVRating', 'ParentalRating'];
+
+// Canonical rating -> restrictiveness, so TV and movie ratings compare
+const RATING_LEVELS: Record<string, number> = {
+  'TV-Y': 1,
+  'TV-Y7': 2,
+  'TV-Y7-FV': 2,
+  'TV-G': 3,
+  G: 3,
+  'TV-PG': 4,
+  PG: 4,
+  'TV-14': 5,
+  'PG-13': 5,
+  'TV-MA': 6,
+  R: 6,
+  'NC-17': 7,
+};
+
+const VCHIP_PATTERN = /\bTV-?(Y7-FV|Y7|Y|G|PG|14|MA)\b/i;
+// Movie ratings are only trusted in a synopsis when spelled out, e.g. "Rated PG-13"
+const MPAA_PATTERN = /\bRated\s+(NC-17|PG-13|PG|G|R)\b/;
+
+/**
+ * Parse a rating string such as "TV-PG", "TVPG", "tv-14" or "PG-13"
+ */
+export function parseRating(value: string): ContentRating | null {
+  const trimmed = value.trim().toUpperCase();
+
+  // Content descriptors ("TV-14-LV", "TV-PG D,L") are ignored
+  const vchip = trimmed.match(/^TV-?(Y7-FV|Y7|Y|G|PG|14|MA)(?:[- ][DLSVF, ]+)?$/);
+  if (vchip) {
+    return { system: 'VCHIP', value: `TV-${vchip[1]}` };
+  }
+
+  if (/^(G|PG|PG-13|R|NC-17)$/.test(trimmed)) {
+    return { system: 'MPAA', value: trimmed };
+  }
+
+  return null;
+}
+
+/**
+ * Rating from an extra guide field, or failing that from the synopsis
+ */
+export function extractRating(program: ProgrammeGuide): ContentRating | null {
+  for (const field of RATING_FIELDS) {
+    const value = program[field];
+    if (typeof value === 'string') {
+      const rating = parseRating(value);
+      if (rating) {
+        return rating;
+      }
+    }
+  }
+
+  const synopsis = program.Synopsis || '';
+  const vchip = synopsis.match(VCHIP_PATTERN);
+  if (vchip) {
+    return { system: 'VCHIP', value: `TV-${vchip[1].toUpperCase()}` };
+  }
+
+  const mpaa = synopsis.match(MPAA_PATTERN);
+  return mpaa ? { system: 'MPAA', value: mpaa[1] } : null;
+}
+
+/**
+ * Drops or masks programmes rated above a maximum
+ * Unrated programmes are kept unless blockUnrated is set.
+ */
+export class ParentalFilter {
+  private readonly config: ParentalConfig;
+  private readonly maxLevel: number | null;
+
+  constructor(config: ParentalConfig) {
+    this.config = config;
+
+    if (!config.maxRating) {
+      this.maxLevel = null;
+      return;
+    }
+
+    const rating = parseRating(config.maxRating);
+    if (!rating) {
+      throw new Error(
+        `Invalid PARENTAL_MAX_RATING "${config.maxRating}": expected one of ${Object.keys(RATING_LEVELS).join(', ')}`
+      );
+    }
+    this.maxLevel = RATING_LEVELS[rating.value];
+  }
+
+  isEnabled(): boolean {
+    return this.maxLevel !== null;
+  }
+
+  /**
+   * Apply the configured mode to every programme above the maximum rating
+   */
+  filterGuide(guide: EPGResponse): EPGResponse {
+    if (this.maxLevel === null) {
+      return guide;
+    }
+
+    let blocked = 0;
+    const result = guide.map((channel) => {
+      const programmes: ProgrammeGuide[] = [];
+
+      for (const program of channel.Guide) {
+        const rating = extractRating(program);
+        if (!this.isBlocked(rating)) {
+          programmes.push(program);
+          continue;
+        }
+
+        blocked++;
+        if (this.config.mode === 'mask') {
+          programmes.push(this.mask(program, rating));
+        }
+      }
+
+      return { ...channel, Guide: programmes };
+    });
+
+    const action = this.config.mode === 'mask' ? 'masked' : 'dropped';
+    console.log(
+      `Parental filter ${action} ${blocked} programmes rated above ${this.config.maxRating}`
+    );
+
+    return result;
+  }
+
+  private isBlocked(rating: ContentRating | null): boolean {
+    if (!rating) {
+      return this.config.blockUnrated;
+    }
+    return RATING_LEVELS[rating.value] > (this.maxLevel as number);
+  }
+
+  /**
+   * Keep the time slot and rating, hide everything that describes the programme
+   */
+  private mask(program: ProgrammeGuide, rating: ContentRating | null): ProgrammeGuide {
+    const masked: ProgrammeGuide = {
+      StartTime: program.StartTime,
+      EndTime: program.EndTime,
+      Title: this.config.maskTitle,
+    };
+    if (rating) {
+      masked.Rating = rating.value;
+    }
+    return masked;
+  }
+}
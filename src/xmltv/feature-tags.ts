@@ -0,0 +1,87 @@
+/**
+ * Feature Tags
+ * Reads the bracketed feature tags HDHomeRun appends to synopses, such as
+ * "[S,CC]" or "[HD] [AD]", so they can be written as XMLTV elements before
+ * cleanDescription strips them
+ *
+ * The vocabulary maps tags to features and can be extended or overridden
+ * (FEATURE_TAGS=DV=audio-described,SAP=none).
+ */
+
+export type ProgrammeFeature =
+  | 'captions'
+  | 'signed'
+  | 'hd'
+  | 'stereo'
+  | 'surround'
+  | 'dolby-digital'
+  | 'audio-described';
+
+// Uppercased tag -> feature
+const DEFAULT_VOCABULARY: Record<string, ProgrammeFeature> = {
+  CC: 'captions',
+  SL: 'signed',
+  HD: 'hd',
+  S: 'stereo',
+  ST: 'stereo',
+  SUR: 'surround',
+  DD: 'dolby-digital',
+  'DD5.1': 'dolby-digital',
+  AD: 'audio-described',
+  DVS: 'audio-described',
+};
+
+const FEATURES = new Set<string>([
+  'captions',
+  'signed',
+  'hd',
+  'stereo',
+  'surround',
+  'dolby-digital',
+  'audio-described',
+]);
+
+const TAG_GROUP = /\[([A-Za-z][A-Za-z0-9., ]*)\]/g;
+
+export class FeatureTagParser {
+  private readonly vocabulary: Map<string, ProgrammeFeature>;
+
+  /**
+   * Overrides map tags to a feature name, or to "none" to ignore a default tag
+   */
+  constructor(overrides: Record<string, string> = {}) {
+    this.vocabulary = new Map(Object.entries(DEFAULT_VOCABULARY));
+
+    for (const [tag, feature] of Object.entries(overrides)) {
+      const key = tag.trim().toUpperCase();
+      if (feature === 'none') {
+        this.vocabulary.delete(key);
+      } else if (FEATURES.has(feature)) {
+        this.vocabulary.set(key, feature as ProgrammeFeature);
+      } else {
+        console.warn(`Ignoring FEATURE_TAGS entry "${tag}=${feature}": unknown feature`);
+      }
+    }
+  }
+
+  /**
+   * Features named by the tags in a synopsis; unknown tags are ignored
+   */
+  parse(text: string | undefined): Set<ProgrammeFeature> {
+    const features = new Set<ProgrammeFeature>();
+    if (!text) {
+      return features;
+    }
+
+    for (const match of text.matchAll(TAG_GROUP)) {
+      for (const tag of match[1].split(',')) {
+        const feature = this.vocabulary.get(tag.trim().toUpperCase());
+        if (feature) {
+          features.add(feature);
+        }
+      }
+    }
+
+    return features;
+  }
+}
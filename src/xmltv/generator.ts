@@ -1,26 +1,48 @@
 /**
  * XMLTV Generator
  * Transforms HDHomeRun JSON data to XMLTV format
+ *
+ * The document is produced element by element, so writeToFile can stream a
+ * multi-week guide to disk without building the whole tree or string.
  */
 
 import { XMLBuilder } from 'fast-xml-parser';
-import type { EPGResponse, ChannelLineupItem } from '../types/hdhomerun';
+import { createWriteStream } from 'fs';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { ChannelFilter } from './channel-filter';
+import { ChannelMap, composeDisplayNames } from './channel-map';
+import { CategoryMapper } from './category-mapper';
+import { LanguageResolver } from './language';
+import { FeatureTagParser } from './feature-tags';
+import { extractRating } from './content-rating';
+import { formatMatchup, parseSportsEvent, sportsCategories } from './sports-parser';
+import { CONTENT_ID_SYSTEM, getProgrammeIds } from './programme-ids';
+import { XMLTVStreamValidator } from './validator';
+import { formatXMLTVTimestamp } from '../utils/time';
+import type { EPGResponse } from '../types/hdhomerun';
+import type { GuideData } from '../types/guide-source';
+import type { DisplayNameVariant } from '../types/config';
+import type { ProgrammeFeature } from './feature-tags';
 import {
   sanitizeText,
   cleanDescription,
   parseEpisodeNumber,
   isNewEpisode,
 } from '../utils/text-sanitizer';
+import { detectAiringFlags } from './airing-flags';
 
 interface XMLTVChannel {
   '@_id': string;
-  'display-name': {
+  'display-name': Array<{
     '@_lang': string;
     '#text': string;
-  };
+  }>;
   icon?: {
     '@_src': string;
   };
+  url?: string;
+  lcn?: string;
 }
 
 interface XMLTVProgramme {
@@ -50,38 +72,175 @@ interface XMLTVProgramme {
     '@_lang': string;
     '#text': string;
   }>;
-  new?: string;
+  video?: {
+    quality: string;
+  };
+  audio?: {
+    stereo: string;
+  };
   'previously-shown'?: {
     '@_start'?: string;
   };
+  premiere?: {
+    '@_lang': string;
+    '#text': string;
+  };
+  'last-chance'?: {
+    '@_lang': string;
+    '#text': string;
+  };
+  new?: string;
+  live?: string;
+  subtitles?: Array<{
+    '@_type': string;
+  }>;
+  rating?: Array<{
+    '@_system': string;
+    value: string;
+  }>;
+  keyword?: Array<{
+    '@_lang': string;
+    '#text': string;
+  }>;
+}
+
+interface XMLTVFragment {
+  kind: 'header' | 'channel' | 'programme' | 'footer';
+  xml: string;
+}
+
+export interface XMLTVWriteStats {
+  channels: number;
+  programmes: number;
+}
+
+export interface XMLTVGeneratorOptions {
+  channelFilter?: ChannelFilter;
+  channelMap?: ChannelMap;
+  timeZone?: string; // IANA zone (or UTC) for timestamps; defaults to the process zone
+  localTimeZone?: string; // Zone airings are local to, for new vs repeat; defaults to timeZone
+  displayNames?: DisplayNameVariant[]; // Defaults to the channel name only
+  categoryMapper?: CategoryMapper; // Filter tags are copied verbatim without one
+  language?: LanguageResolver; // Defaults to "en" for everything
+  featureTags?: FeatureTagParser; // Synopsis feature tags are only stripped without one
+  lcn?: boolean;
+  url?: boolean;
+  sports?: boolean; // Parse teams and leagues out of sports listings
 }
 
 export class XMLTVGenerator {
+  private readonly channelFilter?: ChannelFilter;
+  private readonly channelMap: ChannelMap;
+  private readonly timeZone: string;
+  private readonly localTimeZone: string;
+  private readonly displayNames: DisplayNameVariant[];
+  private readonly includeLcn: boolean;
+  private readonly includeUrl: boolean;
+  private readonly parseSports: boolean;
+  private readonly categoryMapper?: CategoryMapper;
+  private readonly language: LanguageResolver;
+  private readonly featureTags?: FeatureTagParser;
+
+  private readonly builder = new XMLBuilder({
+    ignoreAttributes: false,
+    format: true,
+    indentBy: '  ',
+    suppressEmptyNode: true,
+  });
+
+  constructor(options: XMLTVGeneratorOptions = {}) {
+    this.channelFilter = options.channelFilter;
+    this.channelMap = options.channelMap || new ChannelMap();
+    this.timeZone = options.timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+    this.localTimeZone = options.localTimeZone || this.timeZone;
+    this.displayNames = options.displayNames || ['name'];
+    this.includeLcn = options.lcn ?? false;
+    this.includeUrl = options.url ?? false;
+    this.parseSports = options.sports ?? false;
+    this.categoryMapper = options.categoryMapper;
+    this.featureTags = options.featureTags;
+    this.language =
+      options.language || new LanguageResolver({ default: 'en', channels: {}, detect: false });
+  }
+
   /**
-   * Generate XMLTV XML from HDHomeRun EPG data
+   * Stream XMLTV straight to a file, validating each element as it is written
+   * Only one channel or programme element is held in memory at a time.
+   * Throws when an element is malformed or the guide has no channels or
+   * programmes; the caller is responsible for removing the partial file.
    */
-  generate(
-    epgData: EPGResponse,
-    lineup: ChannelLineupItem[],
-    deviceUrl: string
-  ): string {
-    const channels: XMLTVChannel[] = [];
-    const programmes: XMLTVProgramme[] = [];
-
-    // Build channels
+  async writeToFile(data: GuideData, deviceUrl: string, filePath: string): Promise<XMLTVWriteStats> {
+    const validator = new XMLTVStreamValidator();
+
+    function* validated(fragments: Generator<XMLTVFragment>): Generator<string> {
+      for (const fragment of fragments) {
+        if (fragment.kind === 'channel' || fragment.kind === 'programme') {
+          const result = validator.validateElement(fragment.kind, fragment.xml);
+          if (!result.valid) {
+            throw new Error(`XML validation failed: ${result.error}`);
+          }
+        }
+        yield fragment.xml;
+      }
+
+      const result = validator.finish();
+      if (!result.valid) {
+        throw new Error(`XML validation failed: ${result.error}`);
+      }
+    }
+
+    await pipeline(
+      Readable.from(validated(this.render(data, deviceUrl))),
+      createWriteStream(filePath, { encoding: 'utf-8' })
+    );
+
+    return validator.getCounts();
+  }
+
+  /**
+   * Produce the document as a sequence of fragments: declaration and <tv>
+   * opening tag, every channel, every programme, then the closing tag
+   */
+  private *render(data: GuideData, deviceUrl: string): Generator<XMLTVFragment> {
+    const { lineup } = data;
+    const filtered = this.channelFilter
+      ? this.channelFilter.filterGuide(data.guide, lineup)
+      : data.guide;
+    const epgData = this.channelMap.sort(filtered, (channel) => channel.GuideNumber);
+    this.channelMap.warnUnmatched([
+      ...lineup.map((item) => item.GuideNumber),
+      ...data.guide.map((channel) => channel.GuideNumber),
+    ]);
+
+    const lineupByNumber = new Map(lineup.map((item) => [item.GuideNumber, item]));
+    const channelIds = new Map<string, string>();
+    const channelLanguages = new Map<string, string>();
+
+    yield {
+      kind: 'header',
+      xml:
+        '<?xml version="1.0" encoding="UTF-8"?>\n' +
+        `<tv generator-info-name="HDHomeRun" generator-info-url="${escapeAttribute(deviceUrl)}">\n`,
+    };
+
+    // Channels must all precede programmes in XMLTV
     for (const channelData of epgData) {
       // Get channel name from lineup (more accurate than guide data)
-      const lineupChannel = lineup.find(
-        (l) => l.GuideNumber === channelData.GuideNumber
-      );
+      const lineupChannel = lineupByNumber.get(channelData.GuideNumber);
       const channelName = lineupChannel?.GuideName || channelData.GuideName;
+      const mapped = this.channelMap.resolve(channelData.GuideNumber, channelName);
+      channelIds.set(channelData.GuideNumber, mapped.id);
+
+      const displayNames = composeDisplayNames(mapped, this.displayNames, channelData.Affiliate);
+      const lang = this.language.forChannel(channelData.GuideNumber, channelName);
+      channelLanguages.set(channelData.GuideNumber, lang);
 
       const channel: XMLTVChannel = {
-        '@_id': channelData.GuideNumber,
-        'display-name': {
-          '@_lang': 'en',
-          '#text': sanitizeText(channelName),
-        },
+        '@_id': mapped.id,
+        'display-name': displayNames.map((name) => ({
+          '@_lang': lang,
+          '#text': sanitizeText(name),
+        })),
       };
 
       if (channelData.ImageURL) {
@@ -90,44 +249,50 @@ export class XMLTVGenerator {
         };
       }
 
-      channels.push(channel);
+      if (this.includeUrl && lineupChannel?.URL) {
+        channel.url = lineupChannel.URL;
+      }
 
-      // Build programmes for this channel
-      for (const program of channelData.Guide) {
-        const programme = this.buildProgramme(program, channelData.GuideNumber);
-        programmes.push(programme);
+      if (this.includeLcn) {
+        channel.lcn = mapped.number;
       }
+
+      yield { kind: 'channel', xml: this.buildElement('channel', channel) };
     }
 
-    // Build XML structure
-    const xmlObj = {
-      '?xml': {
-        '@_version': '1.0',
-        '@_encoding': 'UTF-8',
-      },
-      tv: {
-        '@_generator-info-name': 'HDHomeRun',
-        '@_generator-info-url': deviceUrl,
-        channel: channels,
-        programme: programmes,
-      },
-    };
+    for (const channelData of epgData) {
+      const channelId = channelIds.get(channelData.GuideNumber) || channelData.GuideNumber;
+      const channelLanguage = channelLanguages.get(channelData.GuideNumber) || 'en';
+      for (const program of channelData.Guide) {
+        const lang = this.language.forProgramme(channelData.GuideNumber, channelLanguage, program);
+        const programme = this.buildProgramme(program, channelId, lang);
+        yield { kind: 'programme', xml: this.buildElement('programme', programme) };
+      }
+    }
 
-    // Generate XML
-    const builder = new XMLBuilder({
-      ignoreAttributes: false,
-      format: true,
-      indentBy: '  ',
-      suppressEmptyNode: true,
-    });
+    yield { kind: 'footer', xml: '</tv>\n' };
+  }
 
-    return builder.build(xmlObj);
+  /**
+   * Serialize one element, indented one level below <tv>
+   */
+  private buildElement(name: string, element: XMLTVChannel | XMLTVProgramme): string {
+    const xml = this.builder.build({ [name]: element }) as string;
+    return xml
+      .split('\n')
+      .filter((line) => line.length > 0)
+      .map((line) => `  ${line}\n`)
+      .join('');
   }
 
   /**
    * Build a single programme element
    */
-  private buildProgramme(program: EPGResponse[0]['Guide'][0], channelId: string): XMLTVProgramme {
+  private buildProgramme(
+    program: EPGResponse[0]['Guide'][0],
+    channelId: string,
+    lang: string
+  ): XMLTVProgramme {
     // Format timestamps in XMLTV format: YYYYMMDDHHmmss +ZZZZ
     const startTime = this.formatTimestamp(program.StartTime);
     const stopTime = this.formatTimestamp(program.EndTime);
@@ -137,7 +302,7 @@ export class XMLTVGenerator {
       '@_start': startTime,
       '@_stop': stopTime,
       title: {
-        '@_lang': 'en',
+        '@_lang': lang,
         '#text': sanitizeText(program.Title),
       },
     };
@@ -145,16 +310,21 @@ export class XMLTVGenerator {
     // Add description if present
     if (program.Synopsis) {
       programme.desc = {
-        '@_lang': 'en',
+        '@_lang': lang,
         '#text': cleanDescription(program.Synopsis),
       };
     }
 
-    // Add episode title if present
-    if (program.EpisodeTitle) {
+    // Sports listings with a recognizable matchup get a normalized sub-title
+    const sportsEvent = this.parseSports ? parseSportsEvent(program) : null;
+    const matchup = sportsEvent ? formatMatchup(sportsEvent) : null;
+
+    // Add episode title if present; a parsed matchup only stands in for a missing one
+    const subTitle = program.EpisodeTitle || matchup;
+    if (subTitle) {
       programme['sub-title'] = {
-        '@_lang': 'en',
-        '#text': sanitizeText(program.EpisodeTitle),
+        '@_lang': lang,
+        '#text': sanitizeText(subTitle),
       };
     }
 
@@ -165,72 +335,135 @@ export class XMLTVGenerator {
       };
     }
 
-    // Add episode numbers if present
-    if (program.EpisodeNumber) {
-      const episodeInfo = parseEpisodeNumber(program.EpisodeNumber);
-
-      if (episodeInfo) {
-        programme['episode-num'] = [
-          {
-            '@_system': 'xmltv_ns',
-            '#text': episodeInfo.xmltvNs,
-          },
-          {
-            '@_system': 'onscreen',
-            '#text': episodeInfo.onscreen,
-          },
-        ];
-
-        // Determine if new or previously-shown
-        if (program.OriginalAirdate) {
-          if (isNewEpisode(program.OriginalAirdate)) {
-            programme.new = '';
-          } else {
-            const airDate = this.formatTimestamp(program.OriginalAirdate);
-            programme['previously-shown'] = {
-              '@_start': airDate.split(' ')[0], // Just the date part
-            };
-          }
-        } else {
-          // No original air date - assume previously shown
-          programme['previously-shown'] = {};
-        }
+    // Episode numbers, then the ids clients group recordings by
+    const episodeNums: NonNullable<XMLTVProgramme['episode-num']> = [];
+    const episodeInfo = program.EpisodeNumber
+      ? parseEpisodeNumber(program.EpisodeNumber, program.EpisodeTitle)
+      : null;
+    if (episodeInfo) {
+      if (episodeInfo.xmltvNs) {
+        episodeNums.push({ '@_system': 'xmltv_ns', '#text': episodeInfo.xmltvNs });
+      }
+      if (episodeInfo.airDate) {
+        episodeNums.push({ '@_system': 'original-air-date', '#text': episodeInfo.airDate });
       }
+      episodeNums.push({ '@_system': 'onscreen', '#text': episodeInfo.onscreen });
+    }
+
+    const ids = getProgrammeIds(program);
+    if (ids.progid) {
+      episodeNums.push({ '@_system': 'dd_progid', '#text': ids.progid });
+    } else if (ids.contentId) {
+      episodeNums.push({ '@_system': CONTENT_ID_SYSTEM, '#text': ids.contentId });
+    }
+    if (ids.seriesId) {
+      episodeNums.push({ '@_system': 'series-id', '#text': ids.seriesId });
+    }
+    programme['episode-num'] = episodeNums;
+
+    // Feature tags ([CC], [HD], [S], [AD], ...) from the synopsis
+    const features = this.featureTags?.parse(program.Synopsis) ?? new Set<ProgrammeFeature>();
+    if (features.has('hd')) {
+      programme.video = { quality: 'HDTV' };
+    }
+    const stereo = stereoMode(features);
+    if (stereo) {
+      programme.audio = { stereo };
     }
 
-    // Add categories if present
-    if (program.Filter && program.Filter.length > 0) {
-      programme.category = program.Filter.map((cat) => ({
-        '@_lang': 'en',
+    // New vs previously-shown is decided against this airing's local start date,
+    // even when timestamps are written in UTC; without an original airdate
+    // neither is claimed unless the airing is flagged first or live
+    const flags = detectAiringFlags(program);
+    const firstAiring = isNewEpisode(
+      program.OriginalAirdate,
+      program.StartTime,
+      this.localTimeZone
+    );
+    if (flags.first || flags.live || firstAiring) {
+      programme.new = '';
+    } else if (program.OriginalAirdate) {
+      programme['previously-shown'] = {
+        // Airdates are calendar dates at midnight UTC
+        '@_start': formatXMLTVTimestamp(program.OriginalAirdate, 'UTC').slice(0, 8),
+      };
+    }
+
+    // Reruns of a premiere or finale episode are neither
+    if (flags.premiere && (flags.first || firstAiring)) {
+      programme.premiere = { '@_lang': lang, '#text': flags.premiere };
+    }
+    if (flags.lastChance && (flags.first || firstAiring)) {
+      programme['last-chance'] = { '@_lang': lang, '#text': flags.lastChance };
+    }
+    if (flags.live) {
+      programme.live = '';
+    }
+
+    const subtitles = [
+      ...(features.has('captions') ? ['teletext'] : []),
+      ...(features.has('signed') ? ['deaf-signed'] : []),
+    ];
+    if (subtitles.length > 0) {
+      programme.subtitles = subtitles.map((type) => ({ '@_type': type }));
+    }
+
+    const rating = extractRating(program);
+    if (rating) {
+      programme.rating = [{ '@_system': rating.system, value: rating.value }];
+    }
+
+    // Add categories if present (normalized when a category mapper is configured)
+    let categories = this.categoryMapper ? this.categoryMapper.map(program) : program.Filter || [];
+    if (matchup && sportsEvent) {
+      const seen = new Set(categories.map((category) => category.toLowerCase()));
+      categories = [
+        ...categories,
+        ...sportsCategories(sportsEvent).filter((category) => !seen.has(category.toLowerCase())),
+      ];
+    }
+    if (categories.length > 0) {
+      programme.category = categories.map((cat) => ({
+        '@_lang': lang,
         '#text': sanitizeText(cat),
       }));
     }
 
+    // XMLTV has no audio description element; a keyword is the common convention
+    if (features.has('audio-described')) {
+      programme.keyword = [{ '@_lang': lang, '#text': 'audio-described' }];
+    }
+
     return programme;
   }
 
   /**
-   * Format Unix timestamp to XMLTV format
+   * Format Unix timestamp to XMLTV format in the configured timezone
    * XMLTV format: YYYYMMDDHHmmss +ZZZZ
    * Example: 20250915143000 -0500
    */
   private formatTimestamp(unixTimestamp: number): string {
-    const date = new Date(unixTimestamp * 1000);
-
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    const hours = String(date.getHours()).padStart(2, '0');
-    const minutes = String(date.getMinutes()).padStart(2, '0');
-    const seconds = String(date.getSeconds()).padStart(2, '0');
-
-    // Get timezone offset
-    const tzOffset = -date.getTimezoneOffset(); // Minutes
-    const tzSign = tzOffset >= 0 ? '+' : '-';
-    const tzHours = String(Math.floor(Math.abs(tzOffset) / 60)).padStart(2, '0');
-    const tzMinutes = String(Math.abs(tzOffset) % 60).padStart(2, '0');
-    const timezone = `${tzSign}${tzHours}${tzMinutes}`;
-
-    return `${year}${month}${day}${hours}${minutes}${seconds} ${timezone}`;
+    return formatXMLTVTimestamp(unixTimestamp, this.timeZone);
   }
 }
+
+/**
+ * XMLTV <stereo> value for the richest audio feature tagged
+ */
+function stereoMode(features: Set<ProgrammeFeature>): string | null {
+  if (features.has('dolby-digital')) {
+    return 'dolby digital';
+  }
+  if (features.has('surround')) {
+    return 'surround';
+  }
+  return features.has('stereo') ? 'stereo' : null;
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
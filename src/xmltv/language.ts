@@ -0,0 +1,93 @@
+/**
+ * Guide Language
+ * Resolves the xml:lang-style `lang` attribute for channel and programme text
+ *
+ * Precedence: per-channel override, then (with detection enabled) the
+ * language detected from the programme text, then the language implied by
+ * the channel name, then the global default.
+ */
+
+import type { LanguageConfig } from '../types/config';
+import type { ProgrammeGuide } from '../types/hdhomerun';
+
+// Channel names that identify Spanish-language networks
+const SPANISH_CHANNEL_PATTERN =
+  /telemundo|univisi[oó]n|unim[aá]s|galavisi[oó]n|azteca|estrella|latv|telexitos|\bespa[nñ]ol\b|\btuds\b|cinelatino|\bv-?me\b/i;
+
+// Frequent function words; text dominated by one list is taken to be that language
+const STOPWORDS: Record<string, Set<string>> = {
+  en: new Set('the and of to in is with for on his her their an'.split(' ')),
+  es: new Set('el la los las de del que y con por para una un su sus es'.split(' ')),
+};
+
+// Fewer recognized words than this is too little text to judge
+const MIN_DETECTION_WORDS = 3;
+
+export class LanguageResolver {
+  private readonly config: LanguageConfig;
+
+  constructor(config: LanguageConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Language for channel-level text (display names) and programmes without
+   * detectable text
+   */
+  forChannel(guideNumber: string, name: string): string {
+    const override = this.getOverride(guideNumber);
+    if (override) {
+      return override;
+    }
+
+    if (this.config.detect && SPANISH_CHANNEL_PATTERN.test(name)) {
+      return 'es';
+    }
+
+    return this.config.default;
+  }
+
+  /**
+   * Language for one programme's title, sub-title, description and categories
+   */
+  forProgramme(guideNumber: string, channelLanguage: string, program: ProgrammeGuide): string {
+    if (this.getOverride(guideNumber) || !this.config.detect) {
+      return channelLanguage;
+    }
+
+    const text = [program.Title, program.EpisodeTitle, program.Synopsis].filter(Boolean).join(' ');
+    return detectLanguage(text) || channelLanguage;
+  }
+
+  private getOverride(guideNumber: string): string | undefined {
+    // Namespaced ids (5.1@DeviceID) use the plain channel number's override
+    return this.config.channels[guideNumber] || this.config.channels[guideNumber.split('@')[0]];
+  }
+}
+
+/**
+ * Best-guess language of a text from its function words, or null when there
+ * is not enough evidence
+ */
+export function detectLanguage(text: string): string | null {
+  const words = text.toLowerCase().match(/[a-záéíóúñü]+/g) || [];
+  let best: string | null = null;
+  let bestCount = 0;
+  let total = 0;
+
+  for (const [language, stopwords] of Object.entries(STOPWORDS)) {
+    const count = words.filter((word) => stopwords.has(word)).length;
+    total += count;
+    if (count > bestCount) {
+      best = language;
+      bestCount = count;
+    }
+  }
+
+  // Require a clear majority so mixed text falls back to the channel language
+  if (total < MIN_DETECTION_WORDS || bestCount / total < 0.7) {
+    return null;
+  }
+
+  return best;
+}
@@ -0,0 +1,104 @@
+/**
+ * Programme Identifiers
+ * Turns Gracenote ProgramID/SeriesID values from the guide into the
+ * dd_progid and series-id episode numbers media servers use to group
+ * recordings and spot duplicates
+ *
+ * Listings without a ProgramID get no dd_progid; they carry a content id in
+ * our own hdhomerun2xmltv system instead, so it can never be mistaken for
+ * (or collide with) a Gracenote id.
+ */
+
+import { createHash } from 'crypto';
+import type { ProgrammeGuide } from '../types/hdhomerun';
+
+export const CONTENT_ID_SYSTEM = 'hdhomerun2xmltv';
+
+export interface ProgrammeIds {
+  progid?: string; // dd_progid, e.g. "EP01234567.0005"; only from a real ProgramID
+  contentId?: string; // Fallback when there is no ProgramID
+  seriesId?: string;
+}
+
+const MOVIE_FILTERS = new Set(['movie', 'movies', 'film', 'feature film']);
+
+/**
+ * Ids for a programme: the Gracenote dd_progid when the guide has one,
+ * otherwise a content id
+ */
+export function getProgrammeIds(program: ProgrammeGuide): ProgrammeIds {
+  const ids: ProgrammeIds = {};
+
+  if (typeof program.ProgramID === 'string' && program.ProgramID.trim()) {
+    ids.progid = formatProgid(program.ProgramID.trim());
+  } else {
+    ids.contentId = fallbackContentId(program);
+  }
+
+  if (typeof program.SeriesID === 'string' && program.SeriesID.trim()) {
+    ids.seriesId = program.SeriesID.trim();
+  }
+
+  return ids;
+}
+
+/**
+ * "EP012345670005" -> "EP01234567.0005"; other formats pass through
+ */
+function formatProgid(programId: string): string {
+  const match = programId.match(/^([A-Z]{2}\d{8})(\d{4})$/);
+  return match ? `${match[1]}.${match[2]}` : programId;
+}
+
+/**
+ * Id from the title plus whatever tells this content apart:
+ * "movie.<title+year>", "episode.<title>.<episode>" or "show.<title>.<date|synopsis>"
+ *
+ * Only content fields go in, never the airing time, so a repeat of the same
+ * programme keeps its id. Shows without an episode are keyed by their original
+ * airdate, or failing that their synopsis.
+ */
+export function fallbackContentId(program: ProgrammeGuide): string {
+  const title = normalize(program.Title || '');
+  const isMovie = (program.Filter || []).some((tag) => MOVIE_FILTERS.has(tag.trim().toLowerCase()));
+
+  if (isMovie) {
+    // Remakes share titles; the release year tells them apart
+    const year = program.OriginalAirdate
+      ? new Date(program.OriginalAirdate * 1000).getUTCFullYear()
+      : '';
+    return `movie.${hash(`${title}|${year}`)}`;
+  }
+
+  const episode = program.EpisodeNumber || program.EpisodeTitle;
+  if (episode) {
+    return `episode.${hash(title)}.${hash(normalize(episode))}`;
+  }
+
+  // Airdates are calendar dates at midnight UTC
+  const content = program.OriginalAirdate
+    ? utcDate(program.OriginalAirdate)
+    : hash(normalize(program.Synopsis || ''));
+  return `show.${hash(title)}.${content}`;
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Short hex digest of a string
+ */
+function hash(text: string): string {
+  return createHash('sha1').update(text).digest('hex').slice(0, 12);
+}
+
+/**
+ * Unix seconds -> "YYYYMMDD" in UTC
+ */
+function utcDate(unixTimestamp: number): string {
+  return new Date(unixTimestamp * 1000).toISOString().replace(/-/g, '').slice(0, 8);
+}
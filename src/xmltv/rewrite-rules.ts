@@ -0,0 +1,266 @@
+/**
+ * Rewrite Rules
+ * User-defined title/description clean-up applied to the guide before XMLTV
+ * generation (REWRITE_RULES_FILE):
+ *
+ * {
+ *   "rules": [
+ *     { "name": "NFL", "title": "^NFL$", "setTitle": "NFL Football" },
+ *     { "name": "HD suffix", "title": "\\s*\\(HD\\)$", "replaceTitle": "" },
+ *     { "title": "^(.+?) - (.+)$", "channel": "^7\\.1$", "setTitle": "$1", "subTitle": "$2" },
+ *     { "title": ".", "titleCase": true },
+ *     { "category": "^Soap$", "addCategories": ["Drama"] },
+ *     { "title": "^Paid Programming$", "drop": true }
+ *   ]
+ * }
+ *
+ * Match patterns are case-insensitive regular expressions; channel matches the
+ * GuideNumber (without the "@<DeviceID>" of namespaced multi-device channels)
+ * or channel name and category any Filter tag. A rule fires when
+ * all its patterns match. Rules run in order, each seeing the previous rules'
+ * output; $1, $2... in setTitle and subTitle refer to title pattern groups.
+ */
+
+import { promises as fs } from 'fs';
+import type { EPGResponse, ProgrammeGuide } from '../types/hdhomerun';
+
+export interface RewriteRule {
+  name: string;
+  channel?: RegExp;
+  title?: RegExp;
+  description?: RegExp;
+  category?: RegExp;
+  setTitle?: string;
+  replaceTitle?: string; // Replaces the title pattern's matches
+  subTitle?: string;
+  titleCase?: boolean;
+  addCategories?: string[];
+  drop?: boolean;
+}
+
+export interface RuleReport {
+  name: string;
+  hits: number;
+  example?: string; // First rewrite, "before -> after"
+}
+
+export interface RewriteReport {
+  dryRun: boolean;
+  generatedAt: string;
+  rules: RuleReport[];
+}
+
+export class RewriteRules {
+  private readonly rules: RewriteRule[];
+
+  constructor(rules: RewriteRule[] = []) {
+    this.rules = rules;
+  }
+
+  isEnabled(): boolean {
+    return this.rules.length > 0;
+  }
+
+  /**
+   * Run every rule over the guide
+   * In dry-run mode the guide is returned unchanged and only the report is useful
+   */
+  apply(guide: EPGResponse, dryRun = false): { guide: EPGResponse; report: RuleReport[] } {
+    const report = this.rules.map((rule): RuleReport => ({ name: rule.name, hits: 0 }));
+
+    const rewritten = guide.map((channel) => {
+      const programmes: ProgrammeGuide[] = [];
+      const guideNumber = channel.GuideNumber.split('@')[0];
+
+      for (const original of channel.Guide) {
+        let program: ProgrammeGuide | null = original;
+
+        for (const [index, rule] of this.rules.entries()) {
+          const titleMatch = this.match(rule, program, guideNumber, channel.GuideName);
+          if (!titleMatch) {
+            continue;
+          }
+
+          const before = program.Title;
+          program = applyRule(rule, program, titleMatch);
+          report[index].hits++;
+          report[index].example ??= `"${before}" -> ${program ? `"${program.Title}"` : 'dropped'}`;
+
+          if (!program) {
+            break;
+          }
+        }
+
+        if (program) {
+          programmes.push(program);
+        }
+      }
+
+      return { ...channel, Guide: programmes };
+    });
+
+    return { guide: dryRun ? guide : rewritten, report };
+  }
+
+  /**
+   * Title match (or an empty match when the rule has no title pattern), or null
+   */
+  private match(
+    rule: RewriteRule,
+    program: ProgrammeGuide,
+    guideNumber: string,
+    channelName: string
+  ): RegExpMatchArray | string[] | null {
+    if (rule.channel && !rule.channel.test(guideNumber) && !rule.channel.test(channelName)) {
+      return null;
+    }
+    if (rule.description && !rule.description.test(program.Synopsis || '')) {
+      return null;
+    }
+    if (rule.category && !(program.Filter || []).some((tag) => rule.category?.test(tag))) {
+      return null;
+    }
+    if (!rule.title) {
+      return [];
+    }
+    return (program.Title || '').match(rule.title);
+  }
+}
+
+function applyRule(
+  rule: RewriteRule,
+  program: ProgrammeGuide,
+  titleMatch: RegExpMatchArray | string[]
+): ProgrammeGuide | null {
+  if (rule.drop) {
+    return null;
+  }
+
+  const result: ProgrammeGuide = { ...program };
+
+  if (rule.subTitle !== undefined) {
+    const subTitle = expand(rule.subTitle, titleMatch).trim();
+    if (subTitle) {
+      result.EpisodeTitle = subTitle;
+    }
+  }
+
+  if (rule.setTitle !== undefined) {
+    result.Title = expand(rule.setTitle, titleMatch).trim();
+  } else if (rule.replaceTitle !== undefined && rule.title) {
+    const global = new RegExp(rule.title.source, 'gi');
+    result.Title = result.Title.replace(global, rule.replaceTitle).trim();
+  }
+
+  // Only titles written entirely in capitals are recased
+  if (rule.titleCase && result.Title === result.Title.toUpperCase()) {
+    result.Title = toTitleCase(result.Title);
+  }
+
+  if (rule.addCategories) {
+    const existing = new Set((result.Filter || []).map((tag) => tag.toLowerCase()));
+    result.Filter = [
+      ...(result.Filter || []),
+      ...rule.addCategories.filter((category) => !existing.has(category.toLowerCase())),
+    ];
+  }
+
+  // Never leave a programme without a title
+  if (!result.Title) {
+    result.Title = program.Title;
+  }
+
+  return result;
+}
+
+/**
+ * Substitute $1, $2... with title pattern groups
+ */
+function expand(template: string, match: RegExpMatchArray | string[]): string {
+  return template.replace(/\$(\d)/g, (_, group: string) => match[parseInt(group, 10)] ?? '');
+}
+
+/**
+ * "MONDAY NIGHT FOOTBALL" -> "Monday Night Football"; short all-caps words
+ * such as "NFL" or "TV" are kept
+ */
+function toTitleCase(title: string): string {
+  return title.replace(/[A-Za-z][A-Za-z']*/g, (word) =>
+    word.length <= 3 && word === word.toUpperCase()
+      ? word
+      : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
+  );
+}
+
+/**
+ * Load rules from the optional rules file; no file means no rules
+ */
+export async function loadRewriteRules(rulesFile: string | undefined): Promise<RewriteRules> {
+  if (!rulesFile) {
+    return new RewriteRules();
+  }
+
+  let parsed: { rules?: unknown };
+  try {
+    parsed = JSON.parse(await fs.readFile(rulesFile, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to load rewrite rules ${rulesFile}: ${error}`);
+  }
+
+  const rules: RewriteRule[] = [];
+  for (const [index, value] of (Array.isArray(parsed.rules) ? parsed.rules : []).entries()) {
+    const raw = value as Record<string, unknown>;
+    const name = typeof raw.name === 'string' && raw.name ? raw.name : `#${index + 1}`;
+
+    const rule: RewriteRule = {
+      name,
+      channel: compilePattern(raw.channel, name),
+      title: compilePattern(raw.title, name),
+      description: compilePattern(raw.description, name),
+      category: compilePattern(raw.category, name),
+      setTitle: typeof raw.setTitle === 'string' ? raw.setTitle : undefined,
+      replaceTitle: typeof raw.replaceTitle === 'string' ? raw.replaceTitle : undefined,
+      subTitle: typeof raw.subTitle === 'string' ? raw.subTitle : undefined,
+      titleCase: raw.titleCase === true,
+      addCategories: Array.isArray(raw.addCategories)
+        ? raw.addCategories.filter((category): category is string => typeof category === 'string')
+        : undefined,
+      drop: raw.drop === true,
+    };
+
+    const hasPattern = rule.channel || rule.title || rule.description || rule.category;
+    const hasAction =
+      rule.setTitle !== undefined ||
+      rule.replaceTitle !== undefined ||
+      rule.subTitle !== undefined ||
+      rule.titleCase ||
+      (rule.addCategories && rule.addCategories.length > 0) ||
+      rule.drop;
+
+    if (!hasPattern || !hasAction) {
+      console.warn(`Ignoring rewrite rule ${name}: needs at least one pattern and one action`);
+      continue;
+    }
+    if (rule.replaceTitle !== undefined && !rule.title) {
+      console.warn(`Ignoring rewrite rule ${name}: replaceTitle needs a title pattern`);
+      continue;
+    }
+
+    rules.push(rule);
+  }
+
+  console.log(`Loaded ${rules.length} rewrite rules from ${rulesFile}`);
+  return new RewriteRules(rules);
+}
+
+function compilePattern(pattern: unknown, name: string): RegExp | undefined {
+  if (typeof pattern !== 'string' || !pattern) {
+    return undefined;
+  }
+
+  try {
+    return new RegExp(pattern, 'i');
+  } catch (error) {
+    throw new Error(`Invalid pattern in rewrite rule ${name}: ${error}`);
+  }
+}
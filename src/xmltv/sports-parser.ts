@@ -0,0 +1,209 @@
+/**
+ * Sports Parser
+ * Pulls league, sport, teams and event type out of free-text sports listings
+ * such as "College Football: Minnesota at Iowa" or "NFL Football" with the
+ * episode title "Minnesota Vikings at Green Bay Packers"
+ *
+ * A listing is only parsed when its title names a sport or league, or its
+ * genres include a sports genre, so titles like "Love at First Sight" are
+ * left alone. Teams are only looked for in "Sports event" listings and titles
+ * led by a league or sport; "Sports non-event" listings (talk, fishing and
+ * instruction shows) are never games.
+ */
+
+import type { ProgrammeGuide } from '../types/hdhomerun';
+
+export type SportsEventType = 'game' | 'pregame' | 'postgame' | 'highlights' | 'preview' | 'replay';
+
+export interface SportsEvent {
+  league?: string; // "NFL", "College Football"
+  sport?: string; // "Football"
+  home?: string;
+  away?: string;
+  neutral: boolean; // "A vs. B": no home team implied
+  eventType: SportsEventType;
+}
+
+const SPORTS = [
+  'Football',
+  'Basketball',
+  'Baseball',
+  'Hockey',
+  'Soccer',
+  'Volleyball',
+  'Softball',
+  'Lacrosse',
+  'Rugby',
+  'Cricket',
+  'Wrestling',
+  'Tennis',
+  'Golf',
+  'Boxing',
+  'MMA',
+  'Racing',
+];
+
+const LEAGUES = [
+  'NFL',
+  'NBA',
+  'WNBA',
+  'MLB',
+  'NHL',
+  'MLS',
+  'NWSL',
+  'NCAA',
+  'CFL',
+  'UFL',
+  'UFC',
+  'NASCAR',
+  'PGA',
+  'LPGA',
+  'ATP',
+  'WTA',
+  'Premier League',
+  'Champions League',
+  'La Liga',
+  'Bundesliga',
+  'Serie A',
+  'Liga MX',
+];
+
+// Sport names are common words, so they only count at the end of the title
+// or prefix: "College Football", but not "Golf Channel Academy"
+const SPORT_PATTERNS = SPORTS.map((name) => [name, wordPattern(name, true)] as const);
+const LEAGUE_PATTERNS = LEAGUES.map((name) => [name, wordPattern(name)] as const);
+
+const SPORTS_FILTERS = new Set(['sports', 'sports event', 'sport']);
+const EVENT_FILTER = 'sports event';
+const NON_EVENT_FILTER = 'sports non-event';
+
+const EVENT_MARKERS: Array<[RegExp, SportsEventType]> = [
+  [/\bpre-?game\b/i, 'pregame'],
+  [/\bpost-?game\b/i, 'postgame'],
+  [/\bhighlights\b/i, 'highlights'],
+  [/\bpreview\b/i, 'preview'],
+  [/\b(replay|encore|classic|rewind)\b/i, 'replay'],
+];
+
+const EVENT_WORDS = /\b(pre-?game|post-?game|highlights|preview|replay|encore|classic|rewind)\b/gi;
+
+const MATCHUP = /^(.+?)\s+(at|@|vs\.?|v\.?|versus)\s+(.+)$/i;
+
+/**
+ * Parse a listing, or null when it does not look like sports
+ */
+export function parseSportsEvent(program: ProgrammeGuide): SportsEvent | null {
+  const title = program.Title || '';
+  const colon = title.indexOf(':');
+  const prefix = colon > 0 ? title.slice(0, colon).trim() : title;
+
+  const tags = (program.Filter || []).map((tag) => tag.trim().toLowerCase());
+  if (tags.includes(NON_EVENT_FILTER)) {
+    return null;
+  }
+
+  // "College Football Pregame" still names its sport
+  const bare = prefix.replace(EVENT_WORDS, '').trim();
+  const sport = SPORT_PATTERNS.find(([, pattern]) => pattern.test(bare))?.[0];
+  const leagueName = LEAGUE_PATTERNS.find(([, pattern]) => pattern.test(prefix))?.[0];
+  const hasPrefix = Boolean(sport || leagueName);
+  const isEvent = tags.includes(EVENT_FILTER);
+
+  if (!hasPrefix && !tags.some((tag) => SPORTS_FILTERS.has(tag))) {
+    return null;
+  }
+
+  const event: SportsEvent = {
+    sport,
+    // "College Football" names its league only through the prefix itself
+    league: leagueName || (sport && colon > 0 ? prefix : undefined),
+    neutral: false,
+    eventType: 'game',
+  };
+
+  const texts = [title, program.EpisodeTitle || ''];
+  for (const [pattern, type] of EVENT_MARKERS) {
+    if (texts.some((text) => pattern.test(text))) {
+      event.eventType = type;
+      break;
+    }
+  }
+
+  // A bare "at" is too common ("Bass Fishing at Lake Minnetonka") to trust
+  // without an event genre or a league or sport in the title
+  const candidates =
+    isEvent || hasPrefix
+      ? [
+          colon > 0 ? title.slice(colon + 1) : undefined,
+          program.EpisodeTitle,
+          colon > 0 ? undefined : title,
+        ]
+      : [];
+  for (const candidate of candidates) {
+    // Drop a leading label such as "Classic:" before looking for teams
+    const match = candidate
+      ?.replace(/^[^:]*:/, '')
+      .trim()
+      .match(MATCHUP);
+    if (match) {
+      const first = normalizeTeam(match[1]);
+      const second = normalizeTeam(match[3]);
+      const isAt = /^(at|@)$/i.test(match[2]);
+      event.away = isAt ? first : second;
+      event.home = isAt ? second : first;
+      event.neutral = !isAt;
+      break;
+    }
+  }
+
+  return event;
+}
+
+/**
+ * Sub-title for a parsed event: "Minnesota at Iowa", "USA vs. Mexico (Highlights)"
+ * Returns null when no teams were found
+ */
+export function formatMatchup(event: SportsEvent): string | null {
+  if (!event.home || !event.away) {
+    return null;
+  }
+
+  const matchup = event.neutral
+    ? `${event.home} vs. ${event.away}`
+    : `${event.away} at ${event.home}`;
+  if (event.eventType === 'game') {
+    return matchup;
+  }
+  return `${matchup} (${event.eventType.charAt(0).toUpperCase()}${event.eventType.slice(1)})`;
+}
+
+/**
+ * Categories for a parsed event: "Sports event", "Sports", league and sport
+ */
+export function sportsCategories(event: SportsEvent): string[] {
+  const categories = ['Sports event', 'Sports'];
+  if (event.league) {
+    categories.push(event.league);
+  }
+  if (event.sport && event.sport !== event.league) {
+    categories.push(event.sport);
+  }
+  return categories;
+}
+
+/**
+ * Strip rankings and event words: "No. 5 Iowa", "(5) Iowa", "Iowa Pregame" -> "Iowa"
+ */
+function normalizeTeam(team: string): string {
+  return team
+    .replace(EVENT_WORDS, '')
+    .trim()
+    .replace(/^(?:No\.\s*\d+|#\d+|\(\d+\))\s+/i, '')
+    .replace(/\s*\((?:live|taped|replay)\)\s*$/i, '')
+    .replace(/[.,;:]+$/, '')
+    .trim();
+}
+
+function wordPattern(name: string, atEnd = false): RegExp {
+  return new RegExp(`\\b${name.replace(/\s+/g, '\\s+')}\\b${atEnd ? '\\s*$' : ''}`, 'i');
+}
@@ -1,31 +1,51 @@
 /**
  * Streaming Dummy Programming Generator
- * Memory-efficient implementation using streams
+ * Memory-efficient implementation using streams: the input is scanned once
+ * for channel ids and then copied with the dummy elements spliced in, so
+ * only one element is ever held in memory
  */
 
-import { XMLParser } from 'fast-xml-parser';
 import { createWriteStream, createReadStream } from 'fs';
+import { copyFile } from 'fs/promises';
 import { pipeline } from 'stream/promises';
 import { Transform } from 'stream';
-import axios from 'axios';
+import { formatXMLTVTimestamp, startOfDay } from '../utils/time';
+import type { ChannelLineupItem } from '../types/hdhomerun';
+import type { ChannelFilter } from './channel-filter';
+import { composeDisplayNames } from './channel-map';
+import type { LanguageResolver } from './language';
+import type { ChannelMap } from './channel-map';
+import type { DisplayNameVariant } from '../types/config';
 
 export interface StreamingDummyOptions {
   duration: string;
   title?: string;
   description?: string;
   daysFilter?: number; // Optional days limit
-}
-
-interface LineupItem {
-  GuideNumber: string;
-  GuideName: string;
+  channelFilter?: ChannelFilter; // Only add dummy channels the filter keeps
+  channelMap?: ChannelMap; // Ids and display names for added channels
+  displayNames?: DisplayNameVariant[]; // Display-name variants for added channels
+  language?: LanguageResolver; // lang attribute per channel; defaults to "en"
+  timeZone?: string; // Zone for block boundaries and timestamps; defaults to the process zone
+  outputTimeZone?: string; // Zone for timestamps when it differs, e.g. UTC output
 }
 
 interface ChannelInfo {
   id: string;
   name: string;
+  displayNames?: string[];
+  lang: string;
+}
+
+interface GuideScan {
+  channels: Map<string, string | undefined>; // Channel id -> first display name
+  channelsWithPrograms: Set<string>;
 }
 
+// Channel start tags, programme start tags and display names, in document order
+const ELEMENT_PATTERN =
+  /<channel\s[^>]*?\bid="([^"]*)"[^>]*>|<programme\s[^>]*?\bchannel="([^"]*)"[^>]*>|<display-name\b[^>]*>([^<]*)<\/display-name>/g;
+
 /**
  * Parse duration string to hours
  */
@@ -49,22 +69,52 @@ function parseDuration(durationStr: string): number {
 }
 
 /**
- * Format XMLTV timestamp
+ * Unescape the entities written by escapeXML and the XMLTV generator
+ */
+function unescapeXML(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Collect channel ids, their first display names and the channels that have
+ * programmes, reading the file as a stream
+ * Only the text after the last complete match is carried between chunks.
  */
-function formatTimestamp(date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  const hours = String(date.getHours()).padStart(2, '0');
-  const minutes = String(date.getMinutes()).padStart(2, '0');
-  const seconds = String(date.getSeconds()).padStart(2, '0');
-
-  const tzOffset = -date.getTimezoneOffset();
-  const tzSign = tzOffset >= 0 ? '+' : '-';
-  const tzHours = String(Math.floor(Math.abs(tzOffset) / 60)).padStart(2, '0');
-  const tzMinutes = String(Math.abs(tzOffset) % 60).padStart(2, '0');
-
-  return `${year}${month}${day}${hours}${minutes}${seconds} ${tzSign}${tzHours}${tzMinutes}`;
+async function scanGuide(inputPath: string): Promise<GuideScan> {
+  const scan: GuideScan = { channels: new Map(), channelsWithPrograms: new Set() };
+  let currentChannel: string | null = null;
+  let carry = '';
+
+  for await (const chunk of createReadStream(inputPath, { encoding: 'utf-8' })) {
+    const text = carry + (chunk as string);
+    let consumed = 0;
+
+    for (const match of text.matchAll(ELEMENT_PATTERN)) {
+      const [element, channelId, programmeChannel, displayName] = match;
+      if (channelId !== undefined) {
+        currentChannel = unescapeXML(channelId);
+        if (!scan.channels.has(currentChannel)) {
+          scan.channels.set(currentChannel, undefined);
+        }
+      } else if (programmeChannel !== undefined) {
+        currentChannel = null;
+        scan.channelsWithPrograms.add(unescapeXML(programmeChannel));
+      } else if (currentChannel !== null && scan.channels.get(currentChannel) === undefined) {
+        // Channels can carry several display names; the first is the primary one
+        scan.channels.set(currentChannel, unescapeXML(displayName.trim()));
+      }
+      consumed = (match.index ?? 0) + element.length;
+    }
+
+    carry = text.slice(consumed);
+  }
+
+  return scan;
 }
 
 /**
@@ -81,32 +131,35 @@ function escapeXML(text: string): string {
 
 /**
  * Generate dummy programmes as streaming chunks
+ * Blocks start at local midnight each day and the last block of a day is
+ * shortened to end at the next midnight, so 23- and 25-hour DST days have
+ * neither gaps nor overlaps
  */
 function* generateDummyProgrammes(
   channel: ChannelInfo,
   durationHours: number,
   title: string,
   descTemplate: string,
-  days: number
+  days: number,
+  timeZone: string,
+  outputTimeZone: string
 ): Generator<string> {
-  const startDate = new Date();
-  startDate.setHours(0, 0, 0, 0);
-  const endDate = new Date(startDate);
-  endDate.setDate(endDate.getDate() + days);
-
-  let currentTime = new Date(startDate);
+  const blockSeconds = Math.round(durationHours * 3600);
   const description = descTemplate.replace('{channel}', channel.name);
+  const today = startOfDay(Date.now() / 1000, timeZone);
 
-  while (currentTime < endDate) {
-    const nextTime = new Date(currentTime);
-    nextTime.setHours(nextTime.getHours() + durationHours);
+  for (let day = 0; day < days; day++) {
+    const dayStart = day === 0 ? today : startOfDay(today, timeZone, day);
+    const dayEnd = startOfDay(today, timeZone, day + 1);
 
-    yield `  <programme channel="${escapeXML(channel.id)}" start="${formatTimestamp(currentTime)}" stop="${formatTimestamp(nextTime)}">
-    <title lang="en">${escapeXML(title)}</title>
-    <desc lang="en">${escapeXML(description)}</desc>
-  </programme>\n`;
+    for (let blockStart = dayStart; blockStart < dayEnd; blockStart += blockSeconds) {
+      const blockEnd = Math.min(blockStart + blockSeconds, dayEnd);
 
-    currentTime = nextTime;
+      yield `  <programme channel="${escapeXML(channel.id)}" start="${formatXMLTVTimestamp(blockStart, outputTimeZone)}" stop="${formatXMLTVTimestamp(blockEnd, outputTimeZone)}">
+    <title lang="${channel.lang}">${escapeXML(title)}</title>
+    <desc lang="${channel.lang}">${escapeXML(description)}</desc>
+  </programme>\n`;
+    }
   }
 }
 
@@ -117,64 +170,71 @@ export async function streamDummyProgramming(
   inputPath: string,
   outputPath: string,
   options: StreamingDummyOptions,
-  hdhomerunHost: string
+  lineup: ChannelLineupItem[]
 ): Promise<{ channelsAdded: number; dummyChannels: number }> {
   const durationHours = parseDuration(options.duration);
   const title = options.title || 'No Information';
   const descTemplate = options.description || 'No program information is currently available for {channel}.';
   const days = options.daysFilter || 7;
+  const timeZone = options.timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const outputTimeZone = options.outputTimeZone || timeZone;
 
-  // Parse input XML to identify channels needing dummy programming
-  const parser = new XMLParser({
-    ignoreAttributes: false,
-    attributeNamePrefix: '@_',
-    textNodeName: '#text',
-  });
-
-  const inputContent = await (await import('fs/promises')).readFile(inputPath, 'utf-8');
-  const parsed = parser.parse(inputContent) as any;
+  // Scan the input to identify channels needing dummy programming
+  const { channels, channelsWithPrograms } = await scanGuide(inputPath);
 
-  // Fetch lineup
-  let lineup: LineupItem[] = [];
-  try {
-    const response = await axios.get<LineupItem[]>(`http://${hdhomerunHost}/lineup.json`, { timeout: 5000 });
-    lineup = response.data;
-  } catch {
-    // Continue without lineup
-  }
+  const missingChannels: ChannelInfo[] = [];
+  const channelsNeedingDummy: ChannelInfo[] = [];
 
-  // Identify channels
-  const channels = Array.isArray(parsed.tv.channel) ? parsed.tv.channel : [parsed.tv.channel].filter(Boolean);
-  const programmes = Array.isArray(parsed.tv.programme) ? parsed.tv.programme : [parsed.tv.programme].filter(Boolean);
+  const getLanguage = (guideNumber: string, name: string) =>
+    options.language?.forChannel(guideNumber, name) || 'en';
 
-  const channelsWithPrograms = new Set(programmes.map((p: any) => p['@_channel']).filter(Boolean));
-  const existingChannels = new Set(channels.map((c: any) => c['@_id']).filter(Boolean));
+  const isSelected = (id: string, name: string, item?: ChannelLineupItem) =>
+    !options.channelFilter || options.channelFilter.matches(id, name, item);
 
-  const missingChannels: ChannelInfo[] = [];
-  const channelsNeedingDummy: ChannelInfo[] = [];
+  // Channel ids in the input are already mapped, so index the lineup the same way
+  const lineupById = new Map(
+    lineup.map((item) => [options.channelMap?.getId(item.GuideNumber) ?? item.GuideNumber, item])
+  );
 
   // Find missing channels
   for (const item of lineup) {
-    if (item.GuideNumber && !existingChannels.has(item.GuideNumber)) {
-      missingChannels.push({ id: item.GuideNumber, name: item.GuideName });
+    if (!item.GuideNumber || !isSelected(item.GuideNumber, item.GuideName, item)) {
+      continue;
+    }
+
+    const mapped = options.channelMap?.resolve(item.GuideNumber, item.GuideName);
+    const id = mapped?.id ?? item.GuideNumber;
+    if (!channels.has(id)) {
+      missingChannels.push({
+        id,
+        name: item.GuideName,
+        lang: getLanguage(item.GuideNumber, item.GuideName),
+        displayNames:
+          mapped && options.displayNames
+            ? composeDisplayNames(mapped, options.displayNames)
+            : mapped?.displayNames,
+      });
     }
   }
 
   // Find channels without programmes
-  for (const channel of channels) {
-    if (channel['@_id'] && !channelsWithPrograms.has(channel['@_id'])) {
-      const lineupItem = lineup.find((l) => l.GuideNumber === channel['@_id']);
-      const displayName =
-        typeof channel['display-name'] === 'string'
-          ? channel['display-name']
-          : channel['display-name']?.['#text'] || channel['@_id'];
-      channelsNeedingDummy.push({ id: channel['@_id'], name: lineupItem?.GuideName || displayName });
+  for (const [id, displayName] of channels) {
+    if (id && !channelsWithPrograms.has(id)) {
+      const lineupItem = lineupById.get(id);
+      const name = lineupItem?.GuideName || displayName || id;
+      if (isSelected(lineupItem?.GuideNumber ?? id, name, lineupItem)) {
+        channelsNeedingDummy.push({
+          id,
+          name,
+          lang: getLanguage(lineupItem?.GuideNumber ?? id, name),
+        });
+      }
     }
   }
 
   if (missingChannels.length === 0 && channelsNeedingDummy.length === 0) {
     // No changes needed, just copy file
-    await (await import('fs/promises')).copyFile(inputPath, outputPath);
+    await copyFile(inputPath, outputPath);
     return { channelsAdded: 0, dummyChannels: 0 };
   }
 
@@ -200,7 +260,11 @@ export async function streamDummyProgramming(
         if (missingChannels.length > 0) {
           for (const channel of missingChannels) {
             this.push(`  <channel id="${escapeXML(channel.id)}">\n`);
-            this.push(`    <display-name lang="en">${escapeXML(channel.name)}</display-name>\n`);
+            for (const displayName of channel.displayNames || [channel.name]) {
+              this.push(
+                `    <display-name lang="${channel.lang}">${escapeXML(displayName)}</display-name>\n`
+              );
+            }
             this.push(`  </channel>\n`);
           }
         }
@@ -208,7 +272,15 @@ export async function streamDummyProgramming(
         // Add dummy programmes
         const allChannelsNeedingDummy = [...channelsNeedingDummy, ...missingChannels];
         for (const channel of allChannelsNeedingDummy) {
-          for (const programme of generateDummyProgrammes(channel, durationHours, title, descTemplate, days)) {
+          for (const programme of generateDummyProgrammes(
+            channel,
+            durationHours,
+            title,
+            descTemplate,
+            days,
+            timeZone,
+            outputTimeZone
+          )) {
             this.push(programme);
           }
         }
@@ -6,9 +6,11 @@
 import { createReadStream, createWriteStream } from 'fs';
 import { pipeline } from 'stream/promises';
 import { Transform } from 'stream';
+import { parseXMLTVTimestamp, startOfDay } from '../utils/time';
 
 export interface FilterOptions {
   days?: number;
+  timeZone?: string; // Zone whose midnight starts the day count; defaults to the process zone
 }
 
 /**
@@ -27,10 +29,8 @@ export async function streamFilterEPG(
     return;
   }
 
-  const cutoffDate = new Date();
-  cutoffDate.setHours(0, 0, 0, 0);
-  cutoffDate.setDate(cutoffDate.getDate() + options.days);
-  const cutoffTimestamp = cutoffDate.getTime();
+  const timeZone = options.timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const cutoffTimestamp = startOfDay(Date.now() / 1000, timeZone, options.days);
 
   let buffer = '';
   let insideProgramme = false;
@@ -95,22 +95,10 @@ export async function streamFilterEPG(
         insideProgramme = false;
 
         // Filter by date
-        if (programmeStart) {
-          // Parse XMLTV timestamp (YYYYMMDDHHmmss +ZZZZ)
-          const year = parseInt(programmeStart.slice(0, 4));
-          const month = parseInt(programmeStart.slice(4, 6)) - 1;
-          const day = parseInt(programmeStart.slice(6, 8));
-          const hours = parseInt(programmeStart.slice(8, 10));
-          const minutes = parseInt(programmeStart.slice(10, 12));
-          const seconds = parseInt(programmeStart.slice(12, 14));
-
-          const programmeDate = new Date(year, month, day, hours, minutes, seconds);
-
-          if (programmeDate.getTime() < cutoffTimestamp) {
-            output += currentProgramme;
-          }
-        } else {
-          // No start time, keep it
+        // Parse XMLTV timestamp (YYYYMMDDHHmmss +ZZZZ), honouring the offset
+        const programmeTime = programmeStart ? parseXMLTVTimestamp(programmeStart) : null;
+        if (programmeTime === null || programmeTime < cutoffTimestamp) {
+          // Programmes without a parseable start time are kept
           output += currentProgramme;
         }
 
@@ -0,0 +1,192 @@
+/**
+ * Timeline Fill
+ * Extends each channel's listings with placeholder programmes so a guide
+ * built from stale data still covers the full window, and repairs overlaps
+ * and holes in each channel's timeline before generation
+ */
+
+import type { ChannelGuide, EPGResponse, ProgrammeGuide } from '../types/hdhomerun';
+import type { OverlapPolicy } from '../types/config';
+
+export interface PlaceholderOptions {
+  title: string;
+  description: string; // {channel} is replaced with the channel name
+  blockHours: number;
+}
+
+/**
+ * Append placeholder blocks after each channel's last listing up to `until`
+ * Returns a new guide and the number of placeholder programmes added
+ */
+export function fillTimelineTails(
+  guide: EPGResponse,
+  until: number,
+  options: PlaceholderOptions
+): { guide: EPGResponse; added: number } {
+  let added = 0;
+
+  const filled = guide.map((channel) => {
+    const lastEnd = channel.Guide.reduce((end, programme) => Math.max(end, programme.EndTime), 0);
+    if (lastEnd === 0 || lastEnd >= until) {
+      return channel;
+    }
+
+    const placeholders = buildPlaceholders(channel, lastEnd, until, options);
+    added += placeholders.length;
+    return { ...channel, Guide: [...channel.Guide, ...placeholders] };
+  });
+
+  return { guide: filled, added };
+}
+
+/**
+ * Placeholder programmes covering [start, end) in blocks of blockHours
+ * The final block is shortened so it never runs past `end`
+ */
+export function buildPlaceholders(
+  channel: ChannelGuide,
+  start: number,
+  end: number,
+  options: PlaceholderOptions
+): ProgrammeGuide[] {
+  const blockSeconds = Math.max(1800, Math.round(options.blockHours * 3600));
+  const description = options.description.replace('{channel}', channel.GuideName);
+  const placeholders: ProgrammeGuide[] = [];
+
+  for (let blockStart = start; blockStart < end; blockStart += blockSeconds) {
+    placeholders.push({
+      StartTime: blockStart,
+      EndTime: Math.min(blockStart + blockSeconds, end),
+      Title: options.title,
+      Synopsis: description,
+    });
+  }
+
+  return placeholders;
+}
+
+export interface TimelineRepairOptions {
+  overlapPolicy: OverlapPolicy;
+  fillGaps: boolean;
+  fillTail: boolean;
+  minGapSeconds: number;
+  until: number; // End of the guide window for tail fill
+  placeholder: PlaceholderOptions;
+}
+
+export type TimelineRepairKind = 'invalid' | 'trim' | 'drop' | 'gap' | 'tail';
+
+export interface TimelineRepair {
+  kind: TimelineRepairKind;
+  channel: string; // GuideNumber
+  start: number;
+  end: number;
+  title?: string; // Programme trimmed or dropped
+}
+
+// Trimming never leaves a programme shorter than this; it is dropped instead
+const MIN_PROGRAMME_SECONDS = 60;
+
+/**
+ * Sort each channel's programmes and repair its timeline
+ * - programmes that end before they start are dropped
+ * - overlaps are trimmed or dropped per overlapPolicy ('none' leaves them)
+ * - holes of at least minGapSeconds, and the time after the last listing up
+ *   to `until`, are filled with placeholder blocks when enabled
+ * Returns a new guide and every repair made
+ */
+export function repairTimeline(
+  guide: EPGResponse,
+  options: TimelineRepairOptions
+): { guide: EPGResponse; repairs: TimelineRepair[] } {
+  const repairs: TimelineRepair[] = [];
+
+  const repaired = guide.map((channel) => {
+    if (channel.Guide.length === 0) {
+      return channel;
+    }
+
+    const record = (kind: TimelineRepairKind, start: number, end: number, title?: string) =>
+      repairs.push({ kind, channel: channel.GuideNumber, start, end, title });
+
+    const sorted = [...channel.Guide].sort(
+      (a, b) => a.StartTime - b.StartTime || b.EndTime - a.EndTime
+    );
+    const kept: ProgrammeGuide[] = [];
+    // Latest end so far, so overlaps left by the 'none' policy are not read as gaps
+    let coveredUntil = 0;
+
+    for (const programme of sorted) {
+      if (programme.EndTime <= programme.StartTime) {
+        record('invalid', programme.StartTime, programme.EndTime, programme.Title);
+        continue;
+      }
+
+      if (!resolveOverlap(kept, programme, options.overlapPolicy, record)) {
+        continue;
+      }
+
+      if (
+        options.fillGaps &&
+        coveredUntil > 0 &&
+        programme.StartTime - coveredUntil >= options.minGapSeconds
+      ) {
+        kept.push(
+          ...buildPlaceholders(channel, coveredUntil, programme.StartTime, options.placeholder)
+        );
+        record('gap', coveredUntil, programme.StartTime);
+      }
+
+      kept.push(programme);
+      coveredUntil = Math.max(coveredUntil, programme.EndTime);
+    }
+
+    if (options.fillTail && coveredUntil > 0 && coveredUntil < options.until) {
+      kept.push(...buildPlaceholders(channel, coveredUntil, options.until, options.placeholder));
+      record('tail', coveredUntil, options.until);
+    }
+
+    return { ...channel, Guide: kept };
+  });
+
+  return { guide: repaired, repairs };
+}
+
+/**
+ * Settle an overlap between the kept timeline and the next programme
+ * Returns false when the next programme is dropped
+ */
+function resolveOverlap(
+  kept: ProgrammeGuide[],
+  next: ProgrammeGuide,
+  policy: OverlapPolicy,
+  record: (kind: TimelineRepairKind, start: number, end: number, title?: string) => void
+): boolean {
+  if (policy === 'none') {
+    return true;
+  }
+
+  while (kept.length > 0) {
+    const previous = kept[kept.length - 1];
+    if (next.StartTime >= previous.EndTime) {
+      return true;
+    }
+
+    // Contained in the previous programme, or the earlier listing wins
+    if (policy === 'drop' || next.EndTime <= previous.EndTime) {
+      record('drop', next.StartTime, next.EndTime, next.Title);
+      return false;
+    }
+
+    if (next.StartTime - previous.StartTime < MIN_PROGRAMME_SECONDS) {
+      kept.pop();
+      record('drop', previous.StartTime, previous.EndTime, previous.Title);
+    } else {
+      kept[kept.length - 1] = { ...previous, EndTime: next.StartTime };
+      record('trim', next.StartTime, previous.EndTime, previous.Title);
+      return true;
+    }
+  }
+
+  return true;
+}
@@ -4,10 +4,10 @@
  *
  * Critical lesson from Python version:
  * - NEVER write unvalidated XML
- * - Parse generated XML to verify well-formedness
+ * - Parse generated XML to verify well-formedness, one element at a time
  */
 
-import { XMLParser } from 'fast-xml-parser';
+import { XMLValidator } from 'fast-xml-parser';
 
 export interface ValidationResult {
   valid: boolean;
@@ -15,97 +15,52 @@ export interface ValidationResult {
 }
 
 /**
- * Validate XML string is well-formed
- * Uses fast-xml-parser to attempt parsing
+ * Incremental XMLTV validation for streamed output
+ * Each channel/programme element is checked for well-formedness as it is
+ * produced, along with element order; finish() applies the document-level
+ * checks (at least one channel and one programme).
  */
-export function validateXML(xmlString: string): ValidationResult {
-  if (!xmlString || xmlString.trim().length === 0) {
-    return {
-      valid: false,
-      error: 'XML string is empty',
-    };
-  }
-
-  try {
-    const parser = new XMLParser({
-      ignoreAttributes: false,
-      parseTagValue: false,
-    });
-
-    // Attempt to parse - will throw if malformed
-    parser.parse(xmlString);
-
-    // Additional checks
-    if (!xmlString.includes('<tv')) {
-      return {
-        valid: false,
-        error: 'Missing root <tv> element',
-      };
-    }
-
-    if (!xmlString.includes('</tv>')) {
+export class XMLTVStreamValidator {
+  private channels = 0;
+  private programmes = 0;
+
+  validateElement(kind: 'channel' | 'programme', xml: string): ValidationResult {
+    const result = XMLValidator.validate(xml);
+    if (result !== true) {
+      const { msg, line } = result.err;
+      const index = kind === 'channel' ? this.channels : this.programmes;
       return {
         valid: false,
-        error: 'Missing closing </tv> tag',
+        error: `Malformed ${kind} #${index + 1} (line ${line}): ${msg}`,
       };
     }
 
-    // Check for XML declaration
-    if (!xmlString.trim().startsWith('<?xml')) {
-      return {
-        valid: false,
-        error: 'Missing XML declaration',
-      };
+    if (kind === 'channel') {
+      if (this.programmes > 0) {
+        return {
+          valid: false,
+          error: 'Channel element after programme elements',
+        };
+      }
+      this.channels++;
+    } else {
+      this.programmes++;
     }
 
     return {
       valid: true,
     };
-  } catch (error) {
-    return {
-      valid: false,
-      error: `XML parsing failed: ${error}`,
-    };
   }
-}
-
-/**
- * Validate XMLTV structure
- * Checks for required elements
- */
-export function validateXMLTV(xmlString: string): ValidationResult {
-  // First check if well-formed
-  const basicValidation = validateXML(xmlString);
-  if (!basicValidation.valid) {
-    return basicValidation;
-  }
-
-  try {
-    const parser = new XMLParser({
-      ignoreAttributes: false,
-      parseTagValue: false,
-    });
-
-    const parsed = parser.parse(xmlString);
-
-    // Check for tv root element
-    if (!parsed.tv) {
-      return {
-        valid: false,
-        error: 'Missing <tv> root element',
-      };
-    }
 
-    // Check for at least one channel
-    if (!parsed.tv.channel) {
+  finish(): ValidationResult {
+    if (this.channels === 0) {
       return {
         valid: false,
         error: 'No channels found in XMLTV',
       };
     }
 
-    // Check for at least one programme
-    if (!parsed.tv.programme) {
+    if (this.programmes === 0) {
       return {
         valid: false,
         error: 'No programmes found in XMLTV',
@@ -115,10 +70,9 @@ export function validateXMLTV(xmlString: string): ValidationResult {
     return {
       valid: true,
     };
-  } catch (error) {
-    return {
-      valid: false,
-      error: `XMLTV validation failed: ${error}`,
-    };
+  }
+
+  getCounts(): { channels: number; programmes: number } {
+    return { channels: this.channels, programmes: this.programmes };
   }
 }